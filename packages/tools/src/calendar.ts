@@ -0,0 +1,408 @@
+import { type DateInput, formatDate, toDate } from "./date";
+
+/** 时间单位，week 以 weekStart 为一周的第一天，isoWeek 以周一为一周的第一天 */
+export type DateUnit =
+	| "year"
+	| "quarter"
+	| "month"
+	| "week"
+	| "isoWeek"
+	| "day"
+	| "hour"
+	| "minute"
+	| "second"
+	| "millisecond";
+
+export interface WeekOptions {
+	/** 一周的第一天，0 为星期日，1 为星期一，默认 0 */
+	weekStart?: number;
+}
+
+/** 日期范围（包含起止时间） */
+export interface DateRange {
+	start: DateInput;
+	end: DateInput;
+}
+
+/** 节假日信息 */
+export interface HolidayInfo {
+	/** 名称，如 "春节" */
+	name: string;
+	/** true 为放假，false 为调休上班 */
+	off: boolean;
+}
+
+/**
+ * 节假日数据，键为 YYYY-MM-DD
+ * @example
+ * { "2024-02-10": { name: "春节", off: true }, "2024-02-04": { name: "春节", off: false } }
+ */
+export type HolidayData = Record<string, HolidayInfo>;
+
+/** 日历中的一天 */
+export interface CalendarDay {
+	date: Date;
+	year: number;
+	/** 月份，1 ~ 12 */
+	month: number;
+	day: number;
+	/** 星期，0 为星期日 */
+	weekday: number;
+	/** 是否属于当前月份（false 为前后补齐的日期） */
+	inMonth: boolean;
+	isToday: boolean;
+	isWeekend: boolean;
+	/** 是否为工作日（考虑节假日及调休） */
+	isWorkday: boolean;
+	/** 节假日信息 */
+	holiday?: HolidayInfo;
+}
+
+const UNIT_MS: Record<string, number> = {
+	hour: 3_600_000,
+	minute: 60_000,
+	second: 1000,
+	millisecond: 1,
+};
+const DAY_MS = 86_400_000;
+
+/** 已注册的节假日数据 */
+const holidays = new Map<string, HolidayInfo>();
+
+/**
+ * 获取某月的天数
+ * @param year 年
+ * @param month 月，1 ~ 12
+ */
+export function getDaysInMonth(year: number, month: number) {
+	return new Date(year, month, 0).getDate();
+}
+
+/**
+ * 加上一段时间，按月 / 季度 / 年计算时日期超出目标月份天数则取月末（如 1 月 31 日加 1 个月为 2 月 29 日）
+ * @param v 日期
+ * @param amount 数量，可为负数
+ * @param unit 单位
+ * @returns 新的日期对象
+ */
+export function addDate(v: DateInput, amount: number, unit: DateUnit) {
+	const date = toDate(v);
+	switch (unit) {
+		case "year":
+			return addMonths(date, amount * 12);
+		case "quarter":
+			return addMonths(date, amount * 3);
+		case "month":
+			return addMonths(date, amount);
+		case "week":
+		case "isoWeek":
+			date.setDate(date.getDate() + amount * 7);
+			return date;
+		case "day":
+			date.setDate(date.getDate() + amount);
+			return date;
+		default:
+			return new Date(date.getTime() + amount * UNIT_MS[unit]);
+	}
+}
+
+/**
+ * 减去一段时间，规则同 addDate
+ */
+export function subtractDate(v: DateInput, amount: number, unit: DateUnit) {
+	return addDate(v, -amount, unit);
+}
+
+function addMonths(date: Date, amount: number) {
+	const day = date.getDate();
+	date.setDate(1);
+	date.setMonth(date.getMonth() + amount);
+	date.setDate(
+		Math.min(day, getDaysInMonth(date.getFullYear(), date.getMonth() + 1)),
+	);
+	return date;
+}
+
+/**
+ * 单位的起始时间，如 startOf(date, "month") 为当月 1 日 00:00:00.000
+ */
+export function startOf(
+	v: DateInput,
+	unit: DateUnit,
+	options: WeekOptions = {},
+) {
+	const date = toDate(v);
+	switch (unit) {
+		case "year":
+			date.setMonth(0, 1);
+			date.setHours(0, 0, 0, 0);
+			break;
+		case "quarter":
+			date.setMonth(Math.floor(date.getMonth() / 3) * 3, 1);
+			date.setHours(0, 0, 0, 0);
+			break;
+		case "month":
+			date.setDate(1);
+			date.setHours(0, 0, 0, 0);
+			break;
+		case "week":
+		case "isoWeek": {
+			const weekStart = unit === "isoWeek" ? 1 : (options.weekStart ?? 0);
+			date.setDate(date.getDate() - ((date.getDay() - weekStart + 7) % 7));
+			date.setHours(0, 0, 0, 0);
+			break;
+		}
+		case "day":
+			date.setHours(0, 0, 0, 0);
+			break;
+		case "hour":
+			date.setMinutes(0, 0, 0);
+			break;
+		case "minute":
+			date.setSeconds(0, 0);
+			break;
+		case "second":
+			date.setMilliseconds(0);
+			break;
+	}
+	return date;
+}
+
+/**
+ * 单位的结束时间，如 endOf(date, "month") 为当月最后一天 23:59:59.999
+ */
+export function endOf(v: DateInput, unit: DateUnit, options: WeekOptions = {}) {
+	const start = startOf(v, unit, options);
+	return new Date(addDate(start, 1, unit).getTime() - 1);
+}
+
+/**
+ * 计算两个日期的差值（a - b）
+ * 按天 / 周计算时忽略夏令时带来的偏差，按月 / 季度 / 年计算时考虑每月天数不同
+ * @param a 日期
+ * @param b 被减的日期
+ * @param unit 单位，默认 millisecond
+ * @param float 是否返回小数，默认 false（向零取整）
+ */
+export function diffDate(
+	a: DateInput,
+	b: DateInput,
+	unit: DateUnit = "millisecond",
+	float = false,
+) {
+	const x = toDate(a);
+	const y = toDate(b);
+	let result: number;
+	switch (unit) {
+		case "year":
+			result = monthDiff(x, y) / 12;
+			break;
+		case "quarter":
+			result = monthDiff(x, y) / 3;
+			break;
+		case "month":
+			result = monthDiff(x, y);
+			break;
+		case "week":
+		case "isoWeek":
+		case "day": {
+			const zoneDelta =
+				(y.getTimezoneOffset() - x.getTimezoneOffset()) * 60_000;
+			result = (x.getTime() - y.getTime() - zoneDelta) / DAY_MS;
+			if (unit !== "day") result /= 7;
+			break;
+		}
+		default:
+			result = (x.getTime() - y.getTime()) / UNIT_MS[unit];
+	}
+	return float ? result : Math.trunc(result) || 0;
+}
+
+/**
+ * 相差的月数（a - b），不足一个月的部分按所在月份的天数折算
+ */
+function monthDiff(a: Date, b: Date): number {
+	if (a.getDate() < b.getDate()) return -monthDiff(b, a);
+	const whole =
+		(a.getFullYear() - b.getFullYear()) * 12 + (a.getMonth() - b.getMonth());
+	const anchor = addMonths(new Date(b.getTime()), whole);
+	const before = a.getTime() < anchor.getTime();
+	const next = addMonths(new Date(b.getTime()), whole + (before ? -1 : 1));
+	const rest =
+		(a.getTime() - anchor.getTime()) /
+		Math.abs(next.getTime() - anchor.getTime());
+	return whole + rest;
+}
+
+/**
+ * ISO 周所属的年份（如 2021-01-03 属于 2020 年第 53 周）
+ */
+export function getISOWeekYear(v: DateInput) {
+	const date = startOf(v, "day");
+	date.setDate(date.getDate() + 4 - (date.getDay() || 7));
+	return date.getFullYear();
+}
+
+/**
+ * 月份日历（6 行 7 列），不足的部分使用上月末及下月初的日期补齐，用于日期选择器
+ * @param year 年
+ * @param month 月，1 ~ 12
+ * @param options 配置项
+ * @returns 6 个长度为 7 的数组
+ */
+export function getMonthGrid(
+	year: number,
+	month: number,
+	options: WeekOptions = {},
+) {
+	const first = startOf(new Date(year, month - 1, 1), "week", options);
+	const today = formatDate(Date.now(), "YYYY-MM-DD");
+	const rows: CalendarDay[][] = [];
+	for (let row = 0; row < 6; row++) {
+		const days: CalendarDay[] = [];
+		for (let column = 0; column < 7; column++) {
+			const date = addDate(first, row * 7 + column, "day");
+			const key = formatDate(date, "YYYY-MM-DD");
+			const weekday = date.getDay();
+			const day: CalendarDay = {
+				date,
+				year: date.getFullYear(),
+				month: date.getMonth() + 1,
+				day: date.getDate(),
+				weekday,
+				inMonth: date.getMonth() === month - 1,
+				isToday: key === today,
+				isWeekend: weekday === 0 || weekday === 6,
+				isWorkday: isWorkday(date),
+			};
+			const holiday = holidays.get(key);
+			if (holiday) day.holiday = holiday;
+			days.push(day);
+		}
+		rows.push(days);
+	}
+	return rows;
+}
+
+/**
+ * 按单位遍历日期范围（包含起止时间）
+ * eg. eachDate("2024-01-31", "2024-04-30", "month") --> [01-31, 02-29, 03-31, 04-30]
+ * @param start 开始日期
+ * @param end 结束日期
+ * @param unit 单位，默认 day
+ * @param step 步长，默认 1
+ * @returns
+ */
+export function eachDate(
+	start: DateInput,
+	end: DateInput,
+	unit: DateUnit = "day",
+	step = 1,
+) {
+	const dates: Date[] = [];
+	if (step <= 0) return dates;
+	const from = toDate(start);
+	const to = toDate(end).getTime();
+	if (Number.isNaN(from.getTime()) || Number.isNaN(to)) return dates;
+	// 始终从开始日期计算，避免按月遍历时月末日期逐步偏移
+	for (let i = 0; ; i += step) {
+		const date = addDate(from, i, unit);
+		if (Number.isNaN(date.getTime()) || date.getTime() > to) break;
+		dates.push(date);
+	}
+	return dates;
+}
+
+/**
+ * 日期是否在范围内
+ * @param v 日期
+ * @param range 日期范围
+ * @param inclusive 是否包含起止时间，默认 true
+ */
+export function isInRange(v: DateInput, range: DateRange, inclusive = true) {
+	const time = toDate(v).getTime();
+	const start = toDate(range.start).getTime();
+	const end = toDate(range.end).getTime();
+	return inclusive ? time >= start && time <= end : time > start && time < end;
+}
+
+/**
+ * 两个日期范围是否重叠
+ * @param a 日期范围
+ * @param b 日期范围
+ * @param inclusive 首尾相接（a.end 等于 b.start）是否视为重叠，默认 true
+ */
+export function isRangeOverlap(a: DateRange, b: DateRange, inclusive = true) {
+	const aStart = toDate(a.start).getTime();
+	const aEnd = toDate(a.end).getTime();
+	const bStart = toDate(b.start).getTime();
+	const bEnd = toDate(b.end).getTime();
+	return inclusive
+		? aStart <= bEnd && bStart <= aEnd
+		: aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * 注册节假日数据，与已注册的数据合并（同一天以后注册的为准）
+ * 节假日安排每年由国务院办公厅发布，需自行维护数据
+ */
+export function registerHolidays(data: HolidayData) {
+	for (const key of Object.keys(data)) {
+		const date = toDate(key);
+		if (!Number.isNaN(date.getTime())) {
+			holidays.set(formatDate(date, "YYYY-MM-DD"), data[key]);
+		}
+	}
+}
+
+/**
+ * 清空已注册的节假日数据
+ */
+export function clearHolidays() {
+	holidays.clear();
+}
+
+/**
+ * 获取节假日信息，调休上班日返回 off 为 false 的数据，非节假日返回 undefined
+ */
+export function getHoliday(v: DateInput) {
+	return holidays.get(formatDate(v, "YYYY-MM-DD"));
+}
+
+/**
+ * 是否为工作日：调休上班日为工作日，放假日为非工作日，其余按周一至周五判断
+ */
+export function isWorkday(v: DateInput) {
+	const holiday = getHoliday(v);
+	if (holiday) return !holiday.off;
+	const weekday = toDate(v).getDay();
+	return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * 加上若干个工作日
+ * @param v 日期
+ * @param amount 工作日数量，可为负数
+ * @returns 新的日期对象，日期无效时返回无效日期
+ */
+export function addWorkdays(v: DateInput, amount: number) {
+	const date = toDate(v);
+	if (Number.isNaN(date.getTime())) return date;
+	const direction = amount < 0 ? -1 : 1;
+	let rest = Math.abs(amount);
+	/** 连续的非工作日天数 */
+	let skipped = 0;
+	while (rest > 0) {
+		date.setDate(date.getDate() + direction);
+		if (isWorkday(date)) {
+			rest--;
+			skipped = 0;
+		} else if (++skipped > 366) {
+			// 节假日数据有误（如全部标记为放假）时避免死循环
+			throw new Error(
+				"[addWorkdays]：连续超过 366 天没有工作日，请检查节假日数据",
+			);
+		}
+	}
+	return date;
+}
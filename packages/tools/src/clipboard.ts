@@ -0,0 +1,285 @@
+import { processImage } from "./image";
+
+/**
+ * 剪贴板操作失败的原因
+ * - unsupported：当前环境不支持
+ * - insecure-context：非安全上下文（非 https / localhost），无法使用 Clipboard API
+ * - permission-denied：用户拒绝授权，或未在用户操作（如点击）中调用、页面未获得焦点
+ * - empty：剪贴板中没有可读取的内容
+ * - failed：其他原因
+ */
+export type ClipboardErrorCode =
+	| "unsupported"
+	| "insecure-context"
+	| "permission-denied"
+	| "empty"
+	| "failed";
+
+/**
+ * 剪贴板错误
+ *
+ * @example
+ * try {
+ *   await Tools.clipboard(text);
+ * } catch (error) {
+ *   if (error instanceof Tools.ClipboardError && error.code === "permission-denied") Toast.info("请允许访问剪贴板");
+ * }
+ */
+export class ClipboardError extends Error {
+	public readonly code: ClipboardErrorCode;
+	/** 原始错误 */
+	public readonly cause?: unknown;
+
+	constructor(code: ClipboardErrorCode, message: string, cause?: unknown) {
+		super(`[clipboard]：${message}`);
+		this.name = "ClipboardError";
+		this.code = code;
+		this.cause = cause;
+	}
+}
+
+/** 读取到的剪贴板内容 */
+export interface ClipboardContent {
+	text?: string;
+	html?: string;
+	/** 图片 */
+	images: Blob[];
+}
+
+/**
+ * 将 Clipboard API 抛出的错误转换为 ClipboardError
+ */
+function toClipboardError(error: unknown, action: string) {
+	if (error instanceof ClipboardError) return error;
+	const name = (error as DOMException | undefined)?.name;
+	if (name === "NotAllowedError") {
+		return new ClipboardError(
+			"permission-denied",
+			`${action}失败，未获得授权或页面未获得焦点`,
+			error,
+		);
+	}
+	if (name === "SecurityError") {
+		return new ClipboardError(
+			"insecure-context",
+			`${action}失败，需在安全上下文（https）中使用`,
+			error,
+		);
+	}
+	if (name === "NotFoundError" || name === "DataError") {
+		return new ClipboardError("empty", "剪贴板中没有可读取的内容", error);
+	}
+	return new ClipboardError(
+		"failed",
+		`${action}失败，${(error as Error | undefined)?.message ?? error}`,
+		error,
+	);
+}
+
+/**
+ * 是否可以使用 Clipboard API
+ */
+function getClipboard() {
+	if (typeof navigator === "undefined" || !navigator.clipboard) {
+		if (typeof window !== "undefined" && window.isSecureContext === false) {
+			throw new ClipboardError(
+				"insecure-context",
+				"需在安全上下文（https）中使用",
+			);
+		}
+		throw new ClipboardError("unsupported", "当前环境不支持 Clipboard API");
+	}
+	return navigator.clipboard;
+}
+
+/**
+ * 通过 textarea 及 execCommand("copy") 复制文本，保留换行；
+ * iOS 下需通过 Range 选中内容，readonly 避免弹出键盘，12pt 字号避免页面缩放
+ */
+function copyByTextarea(text: string) {
+	const textarea = document.createElement("textarea");
+	textarea.value = text;
+	textarea.setAttribute("readonly", "");
+	textarea.style.cssText =
+		"position:fixed;top:0;left:-9999px;opacity:0;font-size:12pt;border:0;padding:0;margin:0;";
+	const active = document.activeElement as HTMLElement | null;
+	const selection = document.getSelection();
+	const ranges = selection
+		? Array.from({ length: selection.rangeCount }, (_, i) =>
+				selection.getRangeAt(i),
+			)
+		: [];
+	document.body.appendChild(textarea);
+	try {
+		if (/iPad|iPhone|iPod/i.test(navigator.userAgent)) {
+			const range = document.createRange();
+			range.selectNodeContents(textarea);
+			selection?.removeAllRanges();
+			selection?.addRange(range);
+			textarea.setSelectionRange(0, text.length);
+		} else {
+			textarea.select();
+		}
+		if (!document.execCommand("copy")) {
+			throw new ClipboardError("failed", "复制失败，浏览器拒绝执行复制");
+		}
+	} finally {
+		document.body.removeChild(textarea);
+		// 恢复之前的选区及焦点
+		selection?.removeAllRanges();
+		for (const range of ranges) selection?.addRange(range);
+		active?.focus?.();
+	}
+}
+
+/**
+ * 通过 copy 事件写入多种格式（用于不支持 ClipboardItem 的环境）
+ */
+function copyByEvent(data: Record<string, string>) {
+	const listener = (event: ClipboardEvent) => {
+		for (const type of Object.keys(data)) {
+			event.clipboardData?.setData(type, data[type]);
+		}
+		event.preventDefault();
+	};
+	document.addEventListener("copy", listener);
+	try {
+		if (!document.execCommand("copy")) {
+			throw new ClipboardError("failed", "复制失败，浏览器拒绝执行复制");
+		}
+	} finally {
+		document.removeEventListener("copy", listener);
+	}
+}
+
+/**
+ * 复制文本，优先使用 navigator.clipboard，不可用或失败时使用 textarea 降级
+ * @param text 文本，保留换行
+ */
+export async function copyText(text: string) {
+	let reason: unknown;
+	try {
+		await getClipboard().writeText(text);
+		return;
+	} catch (error) {
+		reason = error;
+	}
+	try {
+		copyByTextarea(text);
+	} catch (error) {
+		// 优先返回 Clipboard API 的错误，更能说明失败原因
+		throw toClipboardError(
+			reason instanceof ClipboardError && reason.code === "unsupported"
+				? error
+				: reason,
+			"复制",
+		);
+	}
+}
+
+/**
+ * 复制富文本，粘贴到支持富文本的编辑器时保留格式，其他位置粘贴为纯文本
+ * @param html HTML 片段
+ * @param text 纯文本，默认为 html 去除标签后的文本
+ */
+export async function copyHTML(html: string, text?: string) {
+	const plain =
+		text ??
+		new DOMParser().parseFromString(html, "text/html").body.textContent ??
+		"";
+	try {
+		if (typeof ClipboardItem === "undefined") {
+			throw new ClipboardError("unsupported", "当前环境不支持 ClipboardItem");
+		}
+		await getClipboard().write([
+			new ClipboardItem({
+				"text/html": new Blob([html], { type: "text/html" }),
+				"text/plain": new Blob([plain], { type: "text/plain" }),
+			}),
+		]);
+	} catch (error) {
+		try {
+			copyByEvent({ "text/html": html, "text/plain": plain });
+		} catch {
+			throw toClipboardError(error, "复制");
+		}
+	}
+}
+
+/**
+ * 复制图片，非 PNG 图片会先转换为 PNG（浏览器普遍只支持写入 image/png）
+ * Safari 要求在用户操作中同步调用 clipboard.write，因此可直接传入 Promise（如请求图片的结果）
+ * @param image 图片或返回图片的 Promise
+ */
+export async function copyImage(image: Blob | Promise<Blob>) {
+	if (typeof ClipboardItem === "undefined") {
+		throw new ClipboardError("unsupported", "当前环境不支持复制图片");
+	}
+	// 先检查是否可用，再开始转换图片，避免转换的 Promise 无人处理
+	const clipboard = getClipboard();
+	const png = Promise.resolve(image).then(async (blob) =>
+		blob.type === "image/png"
+			? blob
+			: (await processImage(blob, { format: "png" })).blob,
+	);
+	try {
+		await clipboard.write([new ClipboardItem({ "image/png": png })]);
+	} catch (error) {
+		throw toClipboardError(error, "复制图片");
+	}
+}
+
+/**
+ * 检查读取剪贴板的权限（仅 Chromium 支持查询，其他浏览器在读取时询问）
+ */
+async function checkReadPermission() {
+	try {
+		const status = await navigator.permissions.query({
+			name: "clipboard-read" as PermissionName,
+		});
+		if (status.state === "denied") {
+			throw new ClipboardError("permission-denied", "已拒绝读取剪贴板的授权");
+		}
+	} catch (error) {
+		if (error instanceof ClipboardError) throw error;
+		// 不支持查询该权限时忽略
+	}
+}
+
+/**
+ * 读取剪贴板中的文本
+ */
+export async function readText() {
+	const clipboard = getClipboard();
+	await checkReadPermission();
+	try {
+		return await clipboard.readText();
+	} catch (error) {
+		throw toClipboardError(error, "读取剪贴板");
+	}
+}
+
+/**
+ * 读取剪贴板中的文本、富文本及图片
+ */
+export async function readClipboard(): Promise<ClipboardContent> {
+	const clipboard = getClipboard();
+	await checkReadPermission();
+	if (typeof clipboard.read !== "function") {
+		return { text: await readText(), images: [] };
+	}
+	try {
+		const content: ClipboardContent = { images: [] };
+		for (const item of await clipboard.read()) {
+			for (const type of item.types) {
+				const blob = await item.getType(type);
+				if (type.startsWith("image/")) content.images.push(blob);
+				else if (type === "text/html") content.html ??= await blob.text();
+				else if (type === "text/plain") content.text ??= await blob.text();
+			}
+		}
+		return content;
+	} catch (error) {
+		throw toClipboardError(error, "读取剪贴板");
+	}
+}
@@ -0,0 +1,397 @@
+import { type DateInput, toDate } from "./date";
+
+/** 倒计时状态：未开始 / 进行中 / 已暂停 / 已结束 / 已销毁 */
+export type CountdownStatus =
+	| "idle"
+	| "running"
+	| "paused"
+	| "completed"
+	| "destroyed";
+
+export interface CountdownState {
+	/** 剩余时间，单位毫秒 */
+	remaining: number;
+	days: number;
+	hours: number;
+	minutes: number;
+	seconds: number;
+	milliseconds: number;
+}
+
+export interface CountdownOptions {
+	/** 结束时间（服务器时间），与 duration 二选一；结合 serverOffset 可使各端倒计时一致 */
+	endTime?: DateInput;
+	/** 剩余时长，单位毫秒，与 endTime 二选一 */
+	duration?: number;
+	/** 服务器时间与本地时间的差值（服务器时间 - 本地时间），单位毫秒，默认使用 syncServerTime 设置的值 */
+	serverOffset?: number;
+	/** 更新间隔，单位毫秒，默认 1000（需要显示毫秒时可设为 100） */
+	interval?: number;
+	/** 是否立即开始，默认 true */
+	autoStart?: boolean;
+	/**
+	 * 显示的值变化时触发（剩余时间按 interval 向上取整），结束时以 remaining 为 0 触发一次；
+	 * 自动开始时首次触发在创建后的微任务中，第二个参数为倒计时实例；
+	 * 定时触发时回调出错会输出错误并销毁该倒计时
+	 */
+	onTick?: (state: CountdownState, countdown: Countdown) => void;
+	/** 倒计时结束 */
+	onComplete?: (countdown: Countdown) => void;
+}
+
+/** 全局的服务器时间差值 */
+let globalServerOffset = 0;
+
+/**
+ * 同步服务器时间，以 endTime 创建的倒计时（包括进行中的）以服务器时间计算
+ * @param serverTime 服务器时间（如接口响应头 Date 或响应体中的时间戳）
+ * @param requestStart 发起请求时的本地时间戳，传入时以请求往返的中点校正网络延迟
+ * @returns 服务器时间与本地时间的差值，单位毫秒
+ */
+export function syncServerTime(serverTime: DateInput, requestStart?: number) {
+	const now = Date.now();
+	const local = requestStart === undefined ? now : (requestStart + now) / 2;
+	globalServerOffset = toDate(serverTime).getTime() - local;
+	scheduler.flush();
+	return globalServerOffset;
+}
+
+/**
+ * 倒计时调度器，所有倒计时共用一个定时器，在最近的显示变化时刻触发；
+ * 页面重新可见时立即检查，避免后台定时器被节流导致显示滞后
+ */
+class CountdownScheduler {
+	private items = new Set<Countdown>();
+	private timer: ReturnType<typeof setTimeout> | undefined;
+	private unlisten: (() => void) | undefined;
+
+	public add(item: Countdown) {
+		this.items.add(item);
+		this._listen();
+		this._schedule();
+	}
+
+	public remove(item: Countdown) {
+		if (!this.items.delete(item)) return;
+		if (this.items.size === 0) {
+			clearTimeout(this.timer);
+			this.timer = undefined;
+			this.unlisten?.();
+			this.unlisten = undefined;
+		}
+	}
+
+	/**
+	 * 立即检查所有倒计时
+	 */
+	public flush() {
+		for (const item of [...this.items]) this.tick(item);
+		this._schedule();
+	}
+
+	/**
+	 * 检查单个倒计时，回调出错时输出一次错误并销毁该倒计时，不影响其他倒计时
+	 */
+	public tick(item: Countdown) {
+		try {
+			item._tick();
+		} catch (error) {
+			item.destroy();
+			console.error("[countdown]：回调执行出错，倒计时已销毁", error);
+		}
+	}
+
+	private _schedule() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+		if (this.items.size === 0) return;
+		let delay = Number.POSITIVE_INFINITY;
+		for (const item of this.items) delay = Math.min(delay, item._nextDelay());
+		this.timer = setTimeout(() => this.flush(), delay);
+	}
+
+	private _listen() {
+		if (this.unlisten || typeof document === "undefined") return;
+		const onChange = () => {
+			if (document.visibilityState === "visible") this.flush();
+		};
+		document.addEventListener("visibilitychange", onChange);
+		this.unlisten = () =>
+			document.removeEventListener("visibilitychange", onChange);
+	}
+}
+
+const scheduler = new CountdownScheduler();
+
+/**
+ * 倒计时控制器
+ * 剩余时间始终由结束时间与当前（服务器）时间计算，不会因定时器节流或页面切到后台而产生累积误差
+ *
+ * @example
+ * Tools.syncServerTime(res.serverTime);
+ * Tools.countdown({
+ *   endTime: activity.endTime,
+ *   onTick: (state, countdown) => (el.textContent = countdown.format("DD天 HH:mm:ss")),
+ *   onComplete: () => console.log("活动已结束"),
+ * });
+ */
+export class Countdown {
+	private _status: CountdownStatus = "idle";
+	/** 结束时间，absolute 为 true 时为服务器时间，否则为本地时间 */
+	private deadline = 0;
+	/**
+	 * 是否以服务器时间计算（由 endTime 创建且未暂停过），
+	 * 此时之后调用 syncServerTime 会校正剩余时间；由 duration 创建时不受影响
+	 */
+	private absolute = false;
+	/** 由 duration 创建未开始时、暂停时的剩余时间 */
+	private rest = 0;
+	/** 上次触发 onTick 时显示的值（剩余的 interval 个数） */
+	private lastStep = -1;
+	private interval: number;
+	/** 构造函数是否已执行完毕，之前开始时首次检查延迟到微任务中，避免 onTick 中访问未赋值的实例 */
+	private ready = false;
+
+	constructor(private options: CountdownOptions) {
+		this.interval = Math.max(1, options.interval ?? 1000);
+		this._setTarget(options);
+		if (options.autoStart ?? true) this.start();
+		this.ready = true;
+	}
+
+	/** 当前状态 */
+	public get status() {
+		return this._status;
+	}
+
+	/** 剩余时间，单位毫秒 */
+	public get remaining() {
+		switch (this._status) {
+			case "running":
+				return Math.max(0, this.deadline - this._now());
+			case "idle":
+				return this.absolute
+					? Math.max(0, this.deadline - this._now())
+					: this.rest;
+			case "paused":
+				return this.rest;
+			default:
+				return 0;
+		}
+	}
+
+	/** 剩余时间的各部分（按 interval 向上取整） */
+	public get state(): CountdownState {
+		const remaining = this.remaining;
+		const value = Math.ceil(remaining / this.interval) * this.interval;
+		return {
+			remaining,
+			days: Math.floor(value / 86_400_000),
+			hours: Math.floor(value / 3_600_000) % 24,
+			minutes: Math.floor(value / 60_000) % 60,
+			seconds: Math.floor(value / 1000) % 60,
+			milliseconds: value % 1000,
+		};
+	}
+
+	/**
+	 * 开始，已暂停时等同 resume
+	 */
+	public start() {
+		if (this._status === "paused") return this.resume();
+		if (this._status !== "idle") return;
+		if (!this.absolute) this.deadline = Date.now() + this.rest;
+		this._activate();
+	}
+
+	/**
+	 * 暂停
+	 */
+	public pause() {
+		if (this._status !== "running") return;
+		this.rest = this.remaining;
+		this._status = "paused";
+		scheduler.remove(this);
+	}
+
+	/**
+	 * 继续，结束时间顺延暂停的时长
+	 */
+	public resume() {
+		if (this._status !== "paused") return;
+		this.absolute = false;
+		this.deadline = Date.now() + this.rest;
+		this._activate();
+	}
+
+	/**
+	 * 重置并重新开始
+	 * @param target 新的结束时间或剩余时长，不传时使用创建时的配置
+	 */
+	public reset(target?: Pick<CountdownOptions, "endTime" | "duration">) {
+		if (this._status === "destroyed") return;
+		scheduler.remove(this);
+		this._setTarget(target ?? this.options);
+		this.start();
+	}
+
+	/**
+	 * 增加（负数为减少）剩余时间，已结束时以增加的时间重新开始
+	 * @param ms 单位毫秒
+	 */
+	public addTime(ms: number) {
+		switch (this._status) {
+			case "running":
+				this.deadline += ms;
+				this._tick();
+				// 重新计算下次触发的时间
+				if (this._status === "running") scheduler.add(this);
+				break;
+			case "idle":
+				if (this.absolute) this.deadline += ms;
+				else this.rest = Math.max(0, this.rest + ms);
+				break;
+			case "paused":
+				this.rest = Math.max(0, this.rest + ms);
+				break;
+			case "completed":
+				if (ms > 0) {
+					this.absolute = false;
+					this.deadline = Date.now() + ms;
+					this._activate();
+				}
+				break;
+		}
+	}
+
+	/**
+	 * 按格式输出剩余时间，参考 formatCountdown
+	 * @param format 格式，默认 HH:mm:ss
+	 */
+	public format(format = "HH:mm:ss") {
+		const value = Math.ceil(this.remaining / this.interval) * this.interval;
+		return formatCountdown(value, format);
+	}
+
+	/**
+	 * 销毁，不再触发回调
+	 */
+	public destroy() {
+		scheduler.remove(this);
+		this._status = "destroyed";
+	}
+
+	/** @internal 检查剩余时间 */
+	public _tick() {
+		if (this._status !== "running") return;
+		const remaining = this.remaining;
+		const step = Math.ceil(remaining / this.interval);
+		if (step !== this.lastStep) {
+			this.lastStep = step;
+			this.options.onTick?.(this.state, this);
+		}
+		// onTick 中可能调用了 pause / destroy 等方法
+		if (remaining <= 0 && this._status === "running") {
+			this._status = "completed";
+			scheduler.remove(this);
+			this.options.onComplete?.(this);
+		}
+	}
+
+	/** @internal 距离下次显示变化的时间 */
+	public _nextDelay() {
+		return this.remaining % this.interval || this.interval;
+	}
+
+	/**
+	 * 当前时间，以服务器时间计算时加上服务器时间差值
+	 */
+	private _now() {
+		if (!this.absolute) return Date.now();
+		return Date.now() + (this.options.serverOffset ?? globalServerOffset);
+	}
+
+	private _setTarget(target: Pick<CountdownOptions, "endTime" | "duration">) {
+		this.absolute = target.endTime !== undefined;
+		if (target.endTime !== undefined) {
+			this.deadline = toDate(target.endTime).getTime();
+		} else {
+			this.rest = Math.max(0, target.duration ?? 0);
+		}
+		this._status = "idle";
+	}
+
+	private _activate() {
+		this.lastStep = -1;
+		this._status = "running";
+		scheduler.add(this);
+		if (this.ready) {
+			this._tick();
+		} else {
+			queueMicrotask(() => scheduler.tick(this));
+		}
+	}
+}
+
+/**
+ * 格式化剩余时间，格式中最大的单位累计更大单位的值（如不含 DD 时小时数可超过 24）
+ *
+ * | 占位符 | 说明 |
+ * | --- | --- |
+ * | D / DD | 天 |
+ * | H / HH | 时 |
+ * | m / mm | 分 |
+ * | s / ss | 秒 |
+ * | SSS | 毫秒 |
+ * | S | 十分之一秒 |
+ * | [text] | 原样输出 |
+ *
+ * @param ms 剩余时间，单位毫秒
+ * @param format 格式，默认 HH:mm:ss
+ * @returns
+ */
+export function formatCountdown(ms: number, format = "HH:mm:ss") {
+	const tokens = format.match(/\[[^\]]*]|DD?|HH?|mm?|ss?|SSS|S/g) ?? [];
+	const has = (unit: string) => tokens.some((token) => token[0] === unit);
+	let pool = Math.max(0, Math.floor(ms));
+	const take = (unit: string, size: number) => {
+		if (!has(unit)) return 0;
+		const value = Math.floor(pool / size);
+		pool -= value * size;
+		return value;
+	};
+	const days = take("D", 86_400_000);
+	const hours = take("H", 3_600_000);
+	const minutes = take("m", 60_000);
+	const seconds = take("s", 1000);
+	const milliseconds = pool % 1000;
+	const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+	return format.replace(
+		/\[([^\]]*)]|DD?|HH?|mm?|ss?|SSS|S/g,
+		(token, escaped?: string) => {
+			if (escaped !== undefined) return escaped;
+			switch (token) {
+				case "D":
+					return String(days);
+				case "DD":
+					return pad(days);
+				case "H":
+					return String(hours);
+				case "HH":
+					return pad(hours);
+				case "m":
+					return String(minutes);
+				case "mm":
+					return pad(minutes);
+				case "s":
+					return String(seconds);
+				case "ss":
+					return pad(seconds);
+				case "SSS":
+					return pad(milliseconds, 3);
+				default:
+					return String(Math.floor(milliseconds / 100));
+			}
+		},
+	);
+}
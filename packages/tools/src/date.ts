@@ -0,0 +1,650 @@
+/** 日期参数：时间戳 / 日期字符串 / 日期对象 */
+export type DateInput = number | string | Date;
+
+/** 相对时间文案，%s 为时间长度，%d 为数值 */
+export interface RelativeTimeLocale {
+	/** 将来，如 "%s后" */
+	future: string;
+	/** 过去，如 "%s前" */
+	past: string;
+	/** 不足 45 秒 */
+	s: string;
+	m: string;
+	mm: string;
+	h: string;
+	hh: string;
+	d: string;
+	dd: string;
+	M: string;
+	MM: string;
+	y: string;
+	yy: string;
+}
+
+/** 语言包 */
+export interface DateLocale {
+	/** 语言名称，如 zh-CN */
+	name: string;
+	/** 月份全称（MMMM） */
+	months: string[];
+	/** 月份简称（MMM） */
+	monthsShort: string[];
+	/** 星期全称（dddd），从星期日开始 */
+	weekdays: string[];
+	/** 星期简称（ddd） */
+	weekdaysShort: string[];
+	/** 星期最简称（dd） */
+	weekdaysMin: string[];
+	/** 上午 / 下午（A），a 输出为小写 */
+	meridiem: [string, string];
+	/** 相对时间 */
+	relativeTime: RelativeTimeLocale;
+}
+
+export interface DateFormatOptions {
+	/** 语言，默认使用 setDateLocale 设置的语言（zh-CN） */
+	locale?: string;
+	/** 输出所在时区相对 UTC 的偏移，单位分钟（如东八区为 480），默认使用本地时区 */
+	utcOffset?: number;
+	/** 日期无效时的输出，默认 "-" */
+	invalid?: string;
+}
+
+export interface DateParseOptions {
+	/** 语言，用于解析月份 / 星期名称及上午 / 下午 */
+	locale?: string;
+	/** 日期字符串所在时区相对 UTC 的偏移，单位分钟，默认使用本地时区；字符串中包含 Z / ZZ 时以字符串为准 */
+	utcOffset?: number;
+}
+
+export interface RelativeTimeOptions {
+	/** 比较的基准时间，默认当前时间 */
+	base?: DateInput;
+	/** 语言 */
+	locale?: string;
+	/** 是否省略前后缀（如 "3分钟" 而不是 "3分钟前"），默认 false */
+	withoutSuffix?: boolean;
+}
+
+export const zhCN: DateLocale = {
+	name: "zh-CN",
+	months: [
+		"一月",
+		"二月",
+		"三月",
+		"四月",
+		"五月",
+		"六月",
+		"七月",
+		"八月",
+		"九月",
+		"十月",
+		"十一月",
+		"十二月",
+	],
+	monthsShort: Array.from({ length: 12 }, (_, i) => `${i + 1}月`),
+	weekdays: [
+		"星期日",
+		"星期一",
+		"星期二",
+		"星期三",
+		"星期四",
+		"星期五",
+		"星期六",
+	],
+	weekdaysShort: ["周日", "周一", "周二", "周三", "周四", "周五", "周六"],
+	weekdaysMin: ["日", "一", "二", "三", "四", "五", "六"],
+	meridiem: ["上午", "下午"],
+	relativeTime: {
+		future: "%s后",
+		past: "%s前",
+		s: "几秒",
+		m: "1分钟",
+		mm: "%d分钟",
+		h: "1小时",
+		hh: "%d小时",
+		d: "1天",
+		dd: "%d天",
+		M: "1个月",
+		MM: "%d个月",
+		y: "1年",
+		yy: "%d年",
+	},
+};
+
+export const enUS: DateLocale = {
+	name: "en-US",
+	months: [
+		"January",
+		"February",
+		"March",
+		"April",
+		"May",
+		"June",
+		"July",
+		"August",
+		"September",
+		"October",
+		"November",
+		"December",
+	],
+	monthsShort: [
+		"Jan",
+		"Feb",
+		"Mar",
+		"Apr",
+		"May",
+		"Jun",
+		"Jul",
+		"Aug",
+		"Sep",
+		"Oct",
+		"Nov",
+		"Dec",
+	],
+	weekdays: [
+		"Sunday",
+		"Monday",
+		"Tuesday",
+		"Wednesday",
+		"Thursday",
+		"Friday",
+		"Saturday",
+	],
+	weekdaysShort: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+	weekdaysMin: ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"],
+	meridiem: ["AM", "PM"],
+	relativeTime: {
+		future: "in %s",
+		past: "%s ago",
+		s: "a few seconds",
+		m: "a minute",
+		mm: "%d minutes",
+		h: "an hour",
+		hh: "%d hours",
+		d: "a day",
+		dd: "%d days",
+		M: "a month",
+		MM: "%d months",
+		y: "a year",
+		yy: "%d years",
+	},
+};
+
+const locales = new Map<string, DateLocale>([
+	[zhCN.name, zhCN],
+	[enUS.name, enUS],
+]);
+let currentLocale = zhCN.name;
+
+/**
+ * 注册语言包，已存在同名语言包时覆盖
+ */
+export function registerDateLocale(locale: DateLocale) {
+	locales.set(locale.name, locale);
+}
+
+/**
+ * 设置默认语言
+ */
+export function setDateLocale(name: string) {
+	if (!locales.has(name)) {
+		throw new Error(`[setDateLocale]：未注册的语言 ${name}`);
+	}
+	currentLocale = name;
+}
+
+function getLocale(name?: string) {
+	return locales.get(name ?? currentLocale) ?? zhCN;
+}
+
+/**
+ * 转换为日期对象
+ * 处理 iOS 日期格式兼容性问题：iOS（如微信小程序）不支持 2024-01-01 00:00:00 创建日期，
+ * 因此将其转换为 2024/01/01 00:00:00 格式；
+ * 2024-01-01 这类仅含日期的字符串按本地时间解析（new Date 会将其视为 UTC 零点）
+ */
+export function toDate(v: DateInput) {
+	if (v instanceof Date) return new Date(v.getTime());
+	const matched =
+		typeof v === "string" && /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(v);
+	if (matched) {
+		return new Date(+matched[1], +matched[2] - 1, +matched[3]);
+	}
+	if (
+		typeof v === "string" &&
+		/^\d{4}-\d{1,2}-\d{1,2} \d{1,2}:\d{1,2}(:\d{1,2})?$/.test(v)
+	) {
+		return new Date(v.replace(/-/g, "/"));
+	}
+	return new Date(v);
+}
+
+/** 日期各部分，month 从 0 开始 */
+interface DateParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	millisecond: number;
+	weekday: number;
+	/** 相对 UTC 的偏移，单位分钟 */
+	offset: number;
+}
+
+function getParts(date: Date, utcOffset?: number): DateParts {
+	if (utcOffset === undefined) {
+		return {
+			year: date.getFullYear(),
+			month: date.getMonth(),
+			day: date.getDate(),
+			hour: date.getHours(),
+			minute: date.getMinutes(),
+			second: date.getSeconds(),
+			millisecond: date.getMilliseconds(),
+			weekday: date.getDay(),
+			offset: -date.getTimezoneOffset(),
+		};
+	}
+	// 平移后按 UTC 读取，即为目标时区的日期
+	const shifted = new Date(date.getTime() + utcOffset * 60_000);
+	return {
+		year: shifted.getUTCFullYear(),
+		month: shifted.getUTCMonth(),
+		day: shifted.getUTCDate(),
+		hour: shifted.getUTCHours(),
+		minute: shifted.getUTCMinutes(),
+		second: shifted.getUTCSeconds(),
+		millisecond: shifted.getUTCMilliseconds(),
+		weekday: shifted.getUTCDay(),
+		offset: utcOffset,
+	};
+}
+
+/**
+ * ISO 周数（周一为一周的第一天，包含当年第一个星期四的周为第 1 周）
+ */
+export function getISOWeek(v: DateInput) {
+	const date = toDate(v);
+	return isoWeek(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function isoWeek(year: number, month: number, day: number) {
+	const date = new Date(Date.UTC(year, month, day));
+	// 移动到同一周的星期四，星期四所在的年份即为 ISO 周所属年份
+	date.setUTCDate(date.getUTCDate() + 4 - (date.getUTCDay() || 7));
+	const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+	return Math.ceil(((date.getTime() - yearStart) / 86_400_000 + 1) / 7);
+}
+
+const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+
+function formatOffset(offset: number, separator: string) {
+	const sign = offset < 0 ? "-" : "+";
+	const abs = Math.abs(offset);
+	return `${sign}${pad(Math.floor(abs / 60))}${separator}${pad(abs % 60)}`;
+}
+
+/**
+ * 格式占位符，[] 中的内容原样输出；yyyy 兼容旧版本（等同 YYYY）
+ */
+const FORMAT_TOKENS =
+	/\[([^\]]*)]|YYYY|yyyy|YY|M{1,4}|D{1,2}|d{1,4}|H{1,2}|h{1,2}|m{1,2}|s{1,2}|SSS|A|a|Q|W{1,2}|Z{1,2}|X|x/g;
+
+/**
+ * 格式化日期
+ *
+ * | 占位符 | 说明 |
+ * | --- | --- |
+ * | YYYY / YY | 年 2024 / 24 |
+ * | M / MM / MMM / MMMM | 月 1 / 01 / 1月 / 一月 |
+ * | D / DD | 日 1 / 01 |
+ * | d / dd / ddd / dddd | 星期 0 / 日 / 周日 / 星期日 |
+ * | H / HH | 时（24 小时制） |
+ * | h / hh | 时（12 小时制） |
+ * | m / mm | 分 |
+ * | s / ss | 秒 |
+ * | SSS | 毫秒 |
+ * | A / a | 上午 / 下午 |
+ * | Q | 季度 1 ~ 4 |
+ * | W / WW | ISO 周数 |
+ * | Z / ZZ | 时区偏移 +08:00 / +0800 |
+ * | X / x | 秒 / 毫秒时间戳 |
+ * | [text] | 原样输出 |
+ *
+ * @param v 时间戳 / 日期字符串 / 日期对象
+ * @param format 格式，默认 YYYY-MM-DD HH:mm:ss
+ * @param options 配置项
+ * @returns
+ */
+export function formatDate(
+	v: DateInput,
+	format = "YYYY-MM-DD HH:mm:ss",
+	options: DateFormatOptions = {},
+) {
+	const date = toDate(v);
+	if (Number.isNaN(date.getTime())) return options.invalid ?? "-";
+	const locale = getLocale(options.locale);
+	const p = getParts(date, options.utcOffset);
+	const hour12 = p.hour % 12 || 12;
+	return format.replace(FORMAT_TOKENS, (token, escaped?: string) => {
+		if (escaped !== undefined) return escaped;
+		switch (token) {
+			case "YYYY":
+			case "yyyy":
+				return pad(p.year, 4);
+			case "YY":
+				return pad(p.year % 100);
+			case "M":
+				return String(p.month + 1);
+			case "MM":
+				return pad(p.month + 1);
+			case "MMM":
+				return locale.monthsShort[p.month];
+			case "MMMM":
+				return locale.months[p.month];
+			case "D":
+				return String(p.day);
+			case "DD":
+				return pad(p.day);
+			case "d":
+				return String(p.weekday);
+			case "dd":
+				return locale.weekdaysMin[p.weekday];
+			case "ddd":
+				return locale.weekdaysShort[p.weekday];
+			case "dddd":
+				return locale.weekdays[p.weekday];
+			case "H":
+				return String(p.hour);
+			case "HH":
+				return pad(p.hour);
+			case "h":
+				return String(hour12);
+			case "hh":
+				return pad(hour12);
+			case "m":
+				return String(p.minute);
+			case "mm":
+				return pad(p.minute);
+			case "s":
+				return String(p.second);
+			case "ss":
+				return pad(p.second);
+			case "SSS":
+				return pad(p.millisecond, 3);
+			case "A":
+				return locale.meridiem[p.hour < 12 ? 0 : 1];
+			case "a":
+				return locale.meridiem[p.hour < 12 ? 0 : 1].toLowerCase();
+			case "Q":
+				return String(Math.floor(p.month / 3) + 1);
+			case "W":
+				return String(isoWeek(p.year, p.month, p.day));
+			case "WW":
+				return pad(isoWeek(p.year, p.month, p.day));
+			case "Z":
+				return formatOffset(p.offset, ":");
+			case "ZZ":
+				return formatOffset(p.offset, "");
+			case "X":
+				return String(Math.floor(date.getTime() / 1000));
+			default:
+				return String(date.getTime());
+		}
+	});
+}
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** 名称列表的匹配表达式，长名称优先 */
+const namesPattern = (names: string[]) =>
+	`(${[...names]
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExp)
+		.join("|")})`;
+
+/**
+ * 按格式解析日期字符串，占位符同 formatDate（星期、周数仅参与匹配）
+ * 未传入格式时按 toDate 解析（兼容 iOS）
+ * @param input 日期字符串
+ * @param format 格式，如 YYYY-MM-DD HH:mm:ss
+ * @param options 配置项
+ * @returns 日期对象，无法解析或日期不存在（如 2 月 30 日）时返回 null
+ */
+export function parseDate(
+	input: string,
+	format?: string,
+	options: DateParseOptions = {},
+): Date | null {
+	if (!format) {
+		const date = toDate(input);
+		return Number.isNaN(date.getTime()) ? null : date;
+	}
+	const locale = getLocale(options.locale);
+	const setters: Array<(value: string, fields: ParsedFields) => void> = [];
+	let pattern = "";
+	let lastIndex = 0;
+	const add = (source: string, setter?: (typeof setters)[number]) => {
+		pattern += source;
+		setters.push(setter ?? (() => {}));
+	};
+	const findIndex = (names: string[], value: string) =>
+		names.findIndex((name) => name.toLowerCase() === value.toLowerCase());
+	for (const match of format.matchAll(FORMAT_TOKENS)) {
+		pattern += escapeRegExp(format.slice(lastIndex, match.index));
+		lastIndex = match.index + match[0].length;
+		if (match[1] !== undefined) {
+			pattern += escapeRegExp(match[1]);
+			continue;
+		}
+		switch (match[0]) {
+			case "YYYY":
+			case "yyyy":
+				add("(\\d{4})", (v, f) => {
+					f.year = +v;
+				});
+				break;
+			case "YY":
+				// 与 dayjs 一致：00 ~ 68 为 20xx，69 ~ 99 为 19xx
+				add("(\\d{2})", (v, f) => {
+					f.year = +v + (+v > 68 ? 1900 : 2000);
+				});
+				break;
+			case "M":
+			case "MM":
+				add(match[0] === "M" ? "(\\d{1,2})" : "(\\d{2})", (v, f) => {
+					f.month = +v - 1;
+				});
+				break;
+			case "MMM":
+			case "MMMM": {
+				const names = match[0] === "MMM" ? locale.monthsShort : locale.months;
+				add(namesPattern(names), (v, f) => {
+					f.month = findIndex(names, v);
+				});
+				break;
+			}
+			case "D":
+			case "DD":
+				add(match[0] === "D" ? "(\\d{1,2})" : "(\\d{2})", (v, f) => {
+					f.day = +v;
+				});
+				break;
+			case "d":
+				add("([0-6])");
+				break;
+			case "dd":
+				add(namesPattern(locale.weekdaysMin));
+				break;
+			case "ddd":
+				add(namesPattern(locale.weekdaysShort));
+				break;
+			case "dddd":
+				add(namesPattern(locale.weekdays));
+				break;
+			case "H":
+			case "HH":
+			case "h":
+			case "hh":
+				add(match[0].length === 1 ? "(\\d{1,2})" : "(\\d{2})", (v, f) => {
+					f.hour = +v;
+				});
+				break;
+			case "m":
+			case "mm":
+				add(match[0] === "m" ? "(\\d{1,2})" : "(\\d{2})", (v, f) => {
+					f.minute = +v;
+				});
+				break;
+			case "s":
+			case "ss":
+				add(match[0] === "s" ? "(\\d{1,2})" : "(\\d{2})", (v, f) => {
+					f.second = +v;
+				});
+				break;
+			case "SSS":
+				add("(\\d{3})", (v, f) => {
+					f.millisecond = +v;
+				});
+				break;
+			case "A":
+			case "a":
+				add(namesPattern(locale.meridiem), (v, f) => {
+					f.pm = findIndex(locale.meridiem, v) === 1;
+				});
+				break;
+			case "Q":
+				add("([1-4])", (v, f) => {
+					f.quarter = +v;
+				});
+				break;
+			case "W":
+				add("(\\d{1,2})");
+				break;
+			case "WW":
+				add("(\\d{2})");
+				break;
+			case "Z":
+			case "ZZ":
+				add(
+					match[0] === "Z" ? "([+-]\\d{2}:\\d{2}|Z)" : "([+-]\\d{4}|Z)",
+					(v, f) => {
+						const digits = v.replace(":", "");
+						f.offset =
+							v === "Z"
+								? 0
+								: (digits[0] === "-" ? -1 : 1) *
+									(+digits.slice(1, 3) * 60 + +digits.slice(3, 5));
+					},
+				);
+				break;
+			case "X":
+				add("(-?\\d+)", (v, f) => {
+					f.timestamp = +v * 1000;
+				});
+				break;
+			default:
+				add("(-?\\d+)", (v, f) => {
+					f.timestamp = +v;
+				});
+		}
+	}
+	pattern += escapeRegExp(format.slice(lastIndex));
+	const matched = new RegExp(`^${pattern}$`, "i").exec(input.trim());
+	if (!matched) return null;
+	const fields: ParsedFields = {};
+	setters.forEach((setter, index) => {
+		setter(matched[index + 1], fields);
+	});
+	return buildDate(fields, options.utcOffset);
+}
+
+/** 解析得到的字段 */
+interface ParsedFields {
+	year?: number;
+	month?: number;
+	day?: number;
+	hour?: number;
+	minute?: number;
+	second?: number;
+	millisecond?: number;
+	pm?: boolean;
+	quarter?: number;
+	offset?: number;
+	timestamp?: number;
+}
+
+function buildDate(fields: ParsedFields, utcOffset?: number) {
+	if (fields.timestamp !== undefined) return new Date(fields.timestamp);
+	const now = new Date();
+	const year = fields.year ?? now.getFullYear();
+	const month =
+		fields.month ??
+		(fields.quarter !== undefined ? (fields.quarter - 1) * 3 : 0);
+	const day = fields.day ?? 1;
+	let hour = fields.hour ?? 0;
+	if (fields.pm !== undefined) {
+		if (hour > 12) return null;
+		hour = (hour % 12) + (fields.pm ? 12 : 0);
+	}
+	const minute = fields.minute ?? 0;
+	const second = fields.second ?? 0;
+	const millisecond = fields.millisecond ?? 0;
+	if (month < 0 || month > 11 || hour > 23 || minute > 59 || second > 59) {
+		return null;
+	}
+	const offset = fields.offset ?? utcOffset;
+	// 使用 setFullYear 避免 0 ~ 99 年被识别为 19xx 年
+	const date = new Date(0);
+	if (offset === undefined) {
+		date.setFullYear(year, month, day);
+		date.setHours(hour, minute, second, millisecond);
+	} else {
+		date.setUTCFullYear(year, month, day);
+		date.setUTCHours(hour, minute, second, millisecond);
+		date.setTime(date.getTime() - offset * 60_000);
+	}
+	// 校验日期是否存在（如 2 月 30 日会被 Date 顺延）
+	const parts = getParts(date, offset);
+	return parts.month === month && parts.day === day ? date : null;
+}
+
+/**
+ * 相对时间，如 "3分钟前"、"in 2 days"
+ * 区间：45 秒内为 s，90 秒内为 m，45 分钟内为 mm，90 分钟内为 h，22 小时内为 hh，36 小时内为 d，
+ * 26 天内为 dd，46 天内为 M，320 天内为 MM，548 天内为 y，其余为 yy
+ * @param v 时间戳 / 日期字符串 / 日期对象
+ * @param options 配置项
+ * @returns 日期无效时返回 "-"
+ */
+export function relativeTime(v: DateInput, options: RelativeTimeOptions = {}) {
+	const date = toDate(v);
+	const base = toDate(options.base ?? Date.now());
+	if (Number.isNaN(date.getTime()) || Number.isNaN(base.getTime())) return "-";
+	const { relativeTime: texts } = getLocale(options.locale);
+	const diff = date.getTime() - base.getTime();
+	const seconds = Math.abs(diff) / 1000;
+	const minutes = seconds / 60;
+	const hours = minutes / 60;
+	const days = hours / 24;
+	let text: string;
+	if (seconds < 45) text = texts.s;
+	else if (seconds < 90) text = texts.m;
+	else if (minutes < 45)
+		text = texts.mm.replace("%d", String(Math.round(minutes)));
+	else if (minutes < 90) text = texts.h;
+	else if (hours < 22) text = texts.hh.replace("%d", String(Math.round(hours)));
+	else if (hours < 36) text = texts.d;
+	else if (days < 26) text = texts.dd.replace("%d", String(Math.round(days)));
+	else if (days < 46) text = texts.M;
+	else if (days < 320) {
+		text = texts.MM.replace("%d", String(Math.round(days / 30.4)));
+	} else if (days < 548) text = texts.y;
+	else text = texts.yy.replace("%d", String(Math.round(days / 365)));
+	if (options.withoutSuffix) return text;
+	return (diff > 0 ? texts.future : texts.past).replace("%s", text);
+}
@@ -0,0 +1,504 @@
+import { createZip } from "./zip";
+
+/** 下载资源 */
+export interface DownloadResource {
+	/** 下载地址或 Blob */
+	source: string | Blob;
+	/** 文件名，不传时依次使用响应头 Content-Disposition、地址中的文件名 */
+	filename?: string;
+}
+
+/** 下载状态：等待中 / 下载中 / 成功 / 失败 / 已取消 */
+export type DownloadStatus =
+	| "pending"
+	| "downloading"
+	| "success"
+	| "error"
+	| "aborted";
+
+export interface DownloadTask {
+	/** 在资源数组中的索引 */
+	index: number;
+	resource: DownloadResource;
+	/** 文件名，收到响应后可能根据响应头更新 */
+	filename: string;
+	status: DownloadStatus;
+	/** 已下载的字节数 */
+	loaded: number;
+	/** 文件大小，响应头不包含 Content-Length 时下载完成前为 0 */
+	total: number;
+	/** 已尝试的次数 */
+	attempts: number;
+	/** 下载得到的文件（link 模式下为空） */
+	blob?: Blob;
+	error?: Error;
+}
+
+/** 整体进度 */
+export interface DownloadProgress {
+	loaded: number;
+	total: number;
+	/** 百分比 0 ~ 100，存在大小未知的文件时按完成的文件数计算 */
+	percent: number;
+	/** 文件总数 */
+	count: number;
+	/** 成功的文件数 */
+	completed: number;
+	/** 失败及取消的文件数 */
+	failed: number;
+}
+
+export interface DownloadOptions {
+	/** 下载类型：link 直接通过链接下载 / blob 获取文件内容后下载，默认 blob；打包时始终为 blob */
+	mode?: "link" | "blob";
+	/** 最大并发数，默认 3 */
+	concurrency?: number;
+	/** 失败后的重试次数（仅网络错误及 408 / 429 / 5xx），默认 2 */
+	retry?: number;
+	/** 首次重试的延迟，之后每次翻倍，单位毫秒，默认 1000 */
+	retryDelay?: number;
+	/** 是否打包为一个 zip 文件下载，传入字符串时为压缩包文件名，默认 download.zip */
+	zip?: boolean | string;
+	/** 是否保存到本地（触发浏览器下载），默认 true；为 false 时仅获取文件内容 */
+	save?: boolean;
+	/** 取消下载 */
+	signal?: AbortSignal;
+	/** 请求配置，如 headers、credentials */
+	requestInit?: Omit<RequestInit, "signal">;
+	/** 进度变化 */
+	onProgress?: (progress: DownloadProgress, task: DownloadTask) => void;
+	/** 单个文件下载成功 */
+	onFileComplete?: (task: DownloadTask) => void;
+	/** 单个文件下载失败，未传入时输出警告 */
+	onFileError?: (task: DownloadTask) => void;
+}
+
+export interface DownloadResult {
+	tasks: DownloadTask[];
+	succeeded: DownloadTask[];
+	/** 失败及取消的文件 */
+	failed: DownloadTask[];
+	/** 是否被取消 */
+	aborted: boolean;
+	/** 打包生成的压缩包 */
+	zip?: Blob;
+}
+
+// -- MIME 类型到扩展名的映射表
+const mimeToExtension: { [key: string]: string } = {
+	// 常见文档类型
+	"application/pdf": ".pdf",
+	"application/msword": ".doc",
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+		".docx",
+	"application/vnd.ms-excel": ".xls",
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+	"application/vnd.ms-powerpoint": ".ppt",
+	"application/vnd.openxmlformats-officedocument.presentationml.presentation":
+		".pptx",
+	"text/plain": ".txt",
+	"text/csv": ".csv",
+	"application/json": ".json",
+	"application/xml": ".xml",
+	"application/zip": ".zip",
+	"application/x-rar-compressed": ".rar",
+	"application/x-tar": ".tar",
+	"application/x-7z-compressed": ".7z",
+
+	// 常见图片类型
+	"image/jpeg": ".jpg",
+	"image/png": ".png",
+	"image/gif": ".gif",
+	"image/svg+xml": ".svg",
+	"image/webp": ".webp",
+	"image/bmp": ".bmp",
+	"image/tiff": ".tiff",
+
+	// 常见音频类型
+	"audio/mpeg": ".mp3",
+	"audio/wav": ".wav",
+	"audio/ogg": ".ogg",
+	"audio/aac": ".aac",
+	"audio/webm": ".webm",
+
+	// 常见视频类型
+	"video/mp4": ".mp4",
+	"video/mpeg": ".mpeg",
+	"video/ogg": ".ogv",
+	"video/webm": ".webm",
+	"video/x-msvideo": ".avi",
+	"video/quicktime": ".mov",
+	"video/x-matroska": ".mkv",
+
+	// 其他常见类型
+	"application/octet-stream": ".bin",
+	"application/x-binary": ".bin",
+	"application/x-download": ".bin",
+};
+
+/**
+ * 根据 MIME 类型获取文件扩展名
+ */
+function getExtensionFromMimeType(mimeType: string) {
+	return mimeToExtension[mimeType.split(";")[0].trim().toLowerCase()] || ".bin";
+}
+
+/**
+ * 生成文件名
+ * @param source 下载地址或 Blob
+ * @param filename 指定的文件名
+ * @param contentType 响应的 Content-Type，地址中不包含扩展名时用于推断扩展名
+ */
+function generateFilename(
+	source: string | Blob,
+	filename?: string,
+	contentType?: string,
+) {
+	let __filename = filename ?? "file";
+	let __extension = ".bin";
+
+	if (typeof source === "string") {
+		const base = typeof location !== "undefined" ? location.href : undefined;
+		const pathname = new URL(source, base).pathname;
+
+		// 如果没有提供文件名，则从 URL 的路径中提取文件名
+		if (!filename) {
+			const start = pathname.lastIndexOf("/") + 1;
+			const end =
+				pathname.lastIndexOf(".") > start
+					? pathname.lastIndexOf(".")
+					: pathname.length;
+			__filename = decodeURIComponent(pathname.slice(start, end)) || "file";
+		}
+
+		// 获取扩展名
+		const dotIndex = pathname.lastIndexOf(".");
+		if (
+			dotIndex > pathname.lastIndexOf("/") &&
+			dotIndex < pathname.length - 1
+		) {
+			__extension = pathname.slice(dotIndex);
+		} else if (contentType) {
+			__extension = getExtensionFromMimeType(contentType);
+		}
+	} else {
+		// 获取 Blob 类型的扩展名
+		__extension = getExtensionFromMimeType(source.type);
+	}
+
+	// -- 拼接文件名和扩展名
+	return __filename.endsWith(__extension)
+		? __filename
+		: __filename + __extension;
+}
+
+/**
+ * 解析 Content-Disposition 中的文件名，优先使用 filename*（RFC 5987）
+ * 跨域请求时服务端需通过 Access-Control-Expose-Headers 暴露该响应头
+ */
+export function parseContentDisposition(header: string | null) {
+	if (!header) return undefined;
+	const extended = /filename\*\s*=\s*([^;]+)/i.exec(header);
+	if (extended) {
+		const value = extended[1].trim().replace(/^"|"$/g, "");
+		const encoded = value.replace(/^[\w-]+'[\w-]*'/, "");
+		try {
+			return decodeURIComponent(encoded);
+		} catch {
+			return encoded;
+		}
+	}
+	const plain = /filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i.exec(header);
+	if (!plain) return undefined;
+	const value =
+		plain[2] !== undefined ? plain[2].replace(/\\(.)/g, "$1") : plain[1].trim();
+	// 部分服务端直接返回 URL 编码后的文件名
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * 通过 a 标签触发浏览器下载
+ */
+export function saveFile(source: string | Blob, filename: string) {
+	const href =
+		typeof source === "string" ? source : URL.createObjectURL(source);
+	const a = document.createElement("a");
+	a.style.display = "none";
+	a.href = href;
+	a.download = filename;
+	document.body.appendChild(a);
+	a.click();
+	document.body.removeChild(a);
+	if (typeof source !== "string") {
+		setTimeout(() => URL.revokeObjectURL(href), 1000); // 延迟释放 Blob URL，确保下载完成后再释放。
+	}
+}
+
+/**
+ * 可取消的延迟
+ */
+export function sleep(ms: number, signal: AbortSignal) {
+	return new Promise<void>((resolve) => {
+		const timer = setTimeout(done, ms);
+		function done() {
+			clearTimeout(timer);
+			signal.removeEventListener("abort", done);
+			resolve();
+		}
+		signal.addEventListener("abort", done);
+	});
+}
+
+/**
+ * 下载管理器：并发控制、取消、进度、失败重试及打包下载
+ *
+ * @example
+ * const manager = new DownloadManager(resources, { zip: "images.zip", onProgress: (p) => console.log(p.percent) });
+ * cancelButton.onclick = () => manager.abort();
+ * const { failed } = await manager.start();
+ */
+export class DownloadManager {
+	/** 下载任务，与资源数组一一对应 */
+	public readonly tasks: DownloadTask[];
+	private controller = new AbortController();
+	private running: Promise<DownloadResult> | undefined;
+
+	constructor(
+		resources: DownloadResource[],
+		private options: DownloadOptions = {},
+	) {
+		if (!resources || resources.length === 0) {
+			throw new Error("[downloadFiles]：未传入下载源");
+		}
+		this.tasks = resources.map((resource, index) => ({
+			index,
+			resource,
+			filename: generateFilename(resource.source, resource.filename),
+			status: "pending",
+			loaded: 0,
+			total: typeof resource.source === "string" ? 0 : resource.source.size,
+			attempts: 0,
+		}));
+	}
+
+	/** 整体进度 */
+	public get progress(): DownloadProgress {
+		let loaded = 0;
+		let total = 0;
+		let known = true;
+		let completed = 0;
+		let failed = 0;
+		for (const task of this.tasks) {
+			loaded += task.loaded;
+			total += task.total;
+			if (!task.total && task.status !== "success") known = false;
+			if (task.status === "success") completed++;
+			if (task.status === "error" || task.status === "aborted") failed++;
+		}
+		const count = this.tasks.length;
+		const percent =
+			known && total > 0
+				? (loaded / total) * 100
+				: ((completed + failed) / count) * 100;
+		return {
+			loaded,
+			total,
+			percent: Math.min(100, percent),
+			count,
+			completed,
+			failed,
+		};
+	}
+
+	/**
+	 * 开始下载，重复调用返回同一结果
+	 */
+	public start() {
+		this.running ??= this._start();
+		return this.running;
+	}
+
+	/**
+	 * 取消下载，进行中的请求会被中断，未开始的任务标记为已取消
+	 */
+	public abort() {
+		this.controller.abort();
+	}
+
+	private async _start(): Promise<DownloadResult> {
+		// 仅在下载期间监听外部 signal，结束后移除，避免复用的 signal 持有已完成的实例
+		const external = this.options.signal;
+		const onAbort = () => this.abort();
+		if (external?.aborted) this.abort();
+		external?.addEventListener("abort", onAbort, { once: true });
+		try {
+			return await this._download();
+		} finally {
+			external?.removeEventListener("abort", onAbort);
+		}
+	}
+
+	private async _download(): Promise<DownloadResult> {
+		const { concurrency = 3, zip, save = true } = this.options;
+		const signal = this.controller.signal;
+		let next = 0;
+		const worker = async () => {
+			while (next < this.tasks.length && !signal.aborted) {
+				await this._run(this.tasks[next++]);
+			}
+		};
+		await Promise.all(
+			Array.from(
+				{ length: Math.max(1, Math.min(concurrency, this.tasks.length)) },
+				worker,
+			),
+		);
+		for (const task of this.tasks) {
+			if (task.status === "pending") task.status = "aborted";
+		}
+		const result: DownloadResult = {
+			tasks: this.tasks,
+			succeeded: this.tasks.filter((task) => task.status === "success"),
+			failed: this.tasks.filter((task) => task.status !== "success"),
+			aborted: signal.aborted,
+		};
+		if (zip && !signal.aborted && result.succeeded.length > 0) {
+			const used = new Map<string, number>();
+			result.zip = await createZip(
+				result.succeeded.map((task) => ({
+					name: uniqueName(task.filename, used),
+					data: task.blob as Blob,
+				})),
+			);
+			if (save) {
+				saveFile(result.zip, typeof zip === "string" ? zip : "download.zip");
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * 下载单个文件
+	 */
+	private async _run(task: DownloadTask) {
+		const { retry = 2, retryDelay = 1000, zip, save = true } = this.options;
+		const mode = zip ? "blob" : (this.options.mode ?? "blob");
+		const { source } = task.resource;
+		const signal = this.controller.signal;
+		task.status = "downloading";
+		if (typeof source !== "string") {
+			task.blob = source;
+			task.loaded = source.size;
+			return this._complete(task);
+		}
+		if (mode === "link") {
+			if (save) saveFile(source, task.filename);
+			return this._complete(task);
+		}
+		for (;;) {
+			task.attempts++;
+			try {
+				task.blob = await this._fetch(task, source);
+				return this._complete(task);
+			} catch (error: any) {
+				if (signal.aborted) {
+					task.status = "aborted";
+					this._emit(task);
+					return;
+				}
+				const status: number | undefined = error?.status;
+				const retryable =
+					status === undefined ||
+					status === 408 ||
+					status === 429 ||
+					status >= 500;
+				if (task.attempts > retry || !retryable) {
+					task.status = "error";
+					task.error =
+						error?.status !== undefined
+							? error
+							: new Error(`[downloadFiles]：下载失败，${error?.message}`);
+					this._emit(task);
+					if (this.options.onFileError) this.options.onFileError(task);
+					else console.warn(`[downloadFiles]：下载失败，${source}`, task.error);
+					return;
+				}
+				await sleep(retryDelay * 2 ** (task.attempts - 1), signal);
+			}
+		}
+	}
+
+	/**
+	 * 请求文件，通过 response.body 读取以获取进度
+	 */
+	private async _fetch(task: DownloadTask, url: string) {
+		const response = await fetch(url, {
+			mode: "cors",
+			...this.options.requestInit,
+			signal: this.controller.signal,
+		});
+		if (!response.ok) {
+			throw Object.assign(
+				new Error(
+					`[downloadFiles]：下载失败，HTTP ${response.status} ${response.statusText}`,
+				),
+				{ status: response.status },
+			);
+		}
+		const contentType = response.headers.get("Content-Type") ?? "";
+		if (!task.resource.filename) {
+			task.filename =
+				parseContentDisposition(response.headers.get("Content-Disposition")) ??
+				generateFilename(url, undefined, contentType);
+		}
+		// 响应经过压缩时 Content-Length 为压缩后的大小，仅作为进度参考
+		task.total = Number(response.headers.get("Content-Length")) || 0;
+		task.loaded = 0;
+		if (!response.body) {
+			const blob = await response.blob();
+			task.loaded = blob.size;
+			return blob;
+		}
+		const reader = response.body.getReader();
+		const chunks: Uint8Array[] = [];
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+			task.loaded += value.length;
+			this._emit(task);
+		}
+		return new Blob(chunks as BlobPart[], { type: contentType });
+	}
+
+	private _complete(task: DownloadTask) {
+		task.status = "success";
+		task.total = Math.max(task.total, task.loaded);
+		if (task.blob && this.options.save !== false && !this.options.zip) {
+			saveFile(task.blob, task.filename);
+		}
+		this._emit(task);
+		this.options.onFileComplete?.(task);
+	}
+
+	private _emit(task: DownloadTask) {
+		this.options.onProgress?.(this.progress, task);
+	}
+}
+
+/**
+ * 压缩包中同名文件添加序号，如 a.png、a (1).png
+ */
+function uniqueName(name: string, used: Map<string, number>) {
+	const count = used.get(name) ?? 0;
+	used.set(name, count + 1);
+	if (count === 0) return name;
+	const dot = name.lastIndexOf(".");
+	return dot > 0
+		? `${name.slice(0, dot)} (${count})${name.slice(dot)}`
+		: `${name} (${count})`;
+}
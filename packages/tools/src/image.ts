@@ -0,0 +1,454 @@
+/** 图片来源：文件、Blob、图片地址（含 base64）、图片元素或 canvas */
+export type ImageSource =
+	| File
+	| Blob
+	| string
+	| HTMLImageElement
+	| HTMLCanvasElement;
+
+/** 输出格式 */
+export type ImageFormat = "jpeg" | "png" | "webp";
+
+/** 裁剪区域，基于方向校正后的原图，单位像素 */
+export interface ImageCrop {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/** 水印位置 */
+export type WatermarkPosition =
+	| "top-left"
+	| "top-right"
+	| "bottom-left"
+	| "bottom-right"
+	| "center";
+
+/** 水印，text 与 image 二选一 */
+export interface ImageWatermark {
+	/** 文字水印 */
+	text?: string;
+	/** 图片水印 */
+	image?: ImageSource;
+	/** 图片水印的宽度，默认为图片原始宽度，高度按比例计算 */
+	width?: number;
+	/** 位置，默认 bottom-right */
+	position?: WatermarkPosition;
+	/** 距离边缘的距离，默认 16 */
+	margin?: number;
+	/** 透明度，默认 1 */
+	opacity?: number;
+	/** 文字字体，默认 16px sans-serif */
+	font?: string;
+	/** 文字颜色，默认 rgba(255, 255, 255, 0.8) */
+	color?: string;
+}
+
+export interface ImageProcessOptions {
+	/** 最大宽度，超出时等比缩小 */
+	maxWidth?: number;
+	/** 最大高度，超出时等比缩小 */
+	maxHeight?: number;
+	/** 裁剪区域，在缩放前裁剪，超出图片的部分会被截去，与图片无交集时抛出错误 */
+	crop?: ImageCrop;
+	/** 顺时针旋转角度 */
+	rotate?: 0 | 90 | 180 | 270;
+	/** 是否根据 EXIF 校正 JPEG 方向，默认 true */
+	orientation?: boolean;
+	/** 水印，在缩放后绘制 */
+	watermark?: ImageWatermark;
+	/** 输出格式，默认与原图一致（无法识别时为 jpeg） */
+	format?: ImageFormat;
+	/** 输出质量 0 ~ 1，仅对 jpeg / webp 有效，默认 0.92 */
+	quality?: number;
+	/** 目标大小，单位字节，超出时二分查找满足大小的最高质量（png 不支持调整质量，将转换为 jpeg） */
+	maxSize?: number;
+	/** 查找质量时的最低质量，默认 0.1；仍超出目标大小时继续按 0.8 倍缩小尺寸 */
+	minQuality?: number;
+	/** 背景色，输出 jpeg 时用于填充透明区域，默认 #fff */
+	background?: string;
+}
+
+export interface ImageResult {
+	blob: Blob;
+	width: number;
+	height: number;
+	/** 最终使用的质量 */
+	quality: number;
+	/** MIME 类型，如 image/jpeg */
+	type: string;
+	/** 转换为 base64（Data URL） */
+	toBase64(): Promise<string>;
+	/** 转换为 File */
+	toFile(filename?: string): File;
+}
+
+/**
+ * 读取 JPEG 的 EXIF 方向（1 ~ 8），非 JPEG 或无方向信息时返回 1
+ * @param blob 图片文件
+ */
+export async function getImageOrientation(blob: Blob) {
+	// EXIF 位于文件开头的 APP1 段中
+	const view = new DataView(await blob.slice(0, 64 * 1024).arrayBuffer());
+	if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+	let offset = 2;
+	while (offset + 4 <= view.byteLength) {
+		const marker = view.getUint16(offset);
+		if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+		const length = view.getUint16(offset + 2);
+		// APP1 段且以 "Exif\0\0" 开头
+		if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+			const tiff = offset + 10;
+			if (tiff + 8 > view.byteLength) break;
+			const little = view.getUint16(tiff) === 0x4949;
+			const ifd = tiff + view.getUint32(tiff + 4, little);
+			if (ifd + 2 > view.byteLength) break;
+			const count = view.getUint16(ifd, little);
+			for (let i = 0; i < count; i++) {
+				const entry = ifd + 2 + i * 12;
+				if (entry + 12 > view.byteLength) break;
+				if (view.getUint16(entry, little) === 0x0112) {
+					const value = view.getUint16(entry + 8, little);
+					return value >= 1 && value <= 8 ? value : 1;
+				}
+			}
+			break;
+		}
+		offset += 2 + length;
+	}
+	return 1;
+}
+
+/**
+ * 浏览器绘制图片时是否已自动应用 EXIF 方向（Chrome 81+、Safari 13.4+、Firefox 77+），
+ * 此时不能再手动旋转，否则会旋转两次
+ */
+function isAutoOriented() {
+	return (
+		typeof CSS !== "undefined" &&
+		typeof CSS.supports === "function" &&
+		CSS.supports("image-orientation", "from-image")
+	);
+}
+
+/**
+ * 加载图片
+ */
+function loadImage(src: string) {
+	return new Promise<HTMLImageElement>((resolve, reject) => {
+		const image = new Image();
+		image.crossOrigin = "anonymous";
+		image.onload = () => resolve(image);
+		image.onerror = () =>
+			reject(new Error(`[processImage]：图片加载失败 ${src}`));
+		image.src = src;
+	});
+}
+
+/**
+ * 转换为可绘制的图片，同时返回原图的 Blob（用于读取 EXIF 及识别格式）
+ */
+async function resolveSource(source: ImageSource) {
+	if (typeof source !== "string" && !(source instanceof Blob)) {
+		return { image: source, blob: undefined };
+	}
+	let blob: Blob | undefined;
+	if (source instanceof Blob) {
+		blob = source;
+	} else {
+		// 读取为 Blob 以获取 EXIF 及格式，跨域且不允许时直接加载图片
+		blob = await fetch(source)
+			.then((response) => (response.ok ? response.blob() : undefined))
+			.catch(() => undefined);
+		if (!blob) return { image: await loadImage(source), blob };
+	}
+	const url = URL.createObjectURL(blob);
+	try {
+		return { image: await loadImage(url), blob };
+	} finally {
+		URL.revokeObjectURL(url);
+	}
+}
+
+/**
+ * 图片的原始尺寸
+ */
+function sizeOf(image: HTMLImageElement | HTMLCanvasElement) {
+	return image instanceof HTMLCanvasElement
+		? { width: image.width, height: image.height }
+		: { width: image.naturalWidth, height: image.naturalHeight };
+}
+
+/**
+ * 按 EXIF 方向（1 ~ 8）绘制图片，返回方向正确的 canvas
+ */
+function drawOriented(
+	image: HTMLImageElement | HTMLCanvasElement,
+	orientation: number,
+) {
+	const { width, height } = sizeOf(image);
+	const canvas = document.createElement("canvas");
+	const swap = orientation >= 5;
+	canvas.width = swap ? height : width;
+	canvas.height = swap ? width : height;
+	const context = canvas.getContext("2d") as CanvasRenderingContext2D;
+	switch (orientation) {
+		case 2:
+			context.transform(-1, 0, 0, 1, width, 0);
+			break;
+		case 3:
+			context.transform(-1, 0, 0, -1, width, height);
+			break;
+		case 4:
+			context.transform(1, 0, 0, -1, 0, height);
+			break;
+		case 5:
+			context.transform(0, 1, 1, 0, 0, 0);
+			break;
+		case 6:
+			context.transform(0, 1, -1, 0, height, 0);
+			break;
+		case 7:
+			context.transform(0, -1, -1, 0, height, width);
+			break;
+		case 8:
+			context.transform(0, -1, 1, 0, 0, width);
+			break;
+	}
+	context.drawImage(image, 0, 0);
+	return canvas;
+}
+
+/**
+ * 计算水印左上角坐标
+ */
+function placeWatermark(
+	canvas: HTMLCanvasElement,
+	width: number,
+	height: number,
+	watermark: ImageWatermark,
+) {
+	const margin = watermark.margin ?? 16;
+	const position = watermark.position ?? "bottom-right";
+	if (position === "center") {
+		return { x: (canvas.width - width) / 2, y: (canvas.height - height) / 2 };
+	}
+	return {
+		x: position.endsWith("left") ? margin : canvas.width - width - margin,
+		y: position.startsWith("top") ? margin : canvas.height - height - margin,
+	};
+}
+
+/**
+ * 将裁剪区域限制在图片范围内
+ */
+function clampCrop(
+	crop: ImageCrop | undefined,
+	size: { width: number; height: number },
+): ImageCrop {
+	if (!crop) return { x: 0, y: 0, ...size };
+	const x = Math.min(Math.max(crop.x, 0), size.width);
+	const y = Math.min(Math.max(crop.y, 0), size.height);
+	const width = Math.min(crop.x + crop.width, size.width) - x;
+	const height = Math.min(crop.y + crop.height, size.height) - y;
+	if (!(width > 0 && height > 0)) {
+		throw new Error(
+			`[processImage]：裁剪区域无效 ${JSON.stringify(crop)}，图片尺寸为 ${size.width}x${size.height}`,
+		);
+	}
+	return { x, y, width, height };
+}
+
+/**
+ * 绘制水印
+ * @param image 已加载的水印图片
+ */
+function drawWatermark(
+	canvas: HTMLCanvasElement,
+	watermark: ImageWatermark,
+	image?: HTMLImageElement | HTMLCanvasElement,
+) {
+	const context = canvas.getContext("2d") as CanvasRenderingContext2D;
+	context.save();
+	context.globalAlpha = watermark.opacity ?? 1;
+	if (image) {
+		const size = sizeOf(image);
+		const width = watermark.width ?? size.width;
+		const height = (size.height / size.width) * width;
+		const { x, y } = placeWatermark(canvas, width, height, watermark);
+		context.drawImage(image, x, y, width, height);
+	} else if (watermark.text) {
+		context.font = watermark.font ?? "16px sans-serif";
+		context.fillStyle = watermark.color ?? "rgba(255, 255, 255, 0.8)";
+		context.textBaseline = "top";
+		const metrics = context.measureText(watermark.text);
+		const height =
+			metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent ||
+			Number.parseInt(context.font, 10);
+		const { x, y } = placeWatermark(canvas, metrics.width, height, watermark);
+		context.fillText(watermark.text, x, y);
+	}
+	context.restore();
+}
+
+/**
+ * canvas 转换为 Blob
+ */
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+	return new Promise<Blob>((resolve, reject) => {
+		canvas.toBlob(
+			(blob) =>
+				blob
+					? resolve(blob)
+					: reject(new Error("[processImage]：图片导出失败")),
+			type,
+			quality,
+		);
+	});
+}
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+	jpeg: "image/jpeg",
+	png: "image/png",
+	webp: "image/webp",
+};
+
+/**
+ * 图片处理：EXIF 方向校正 → 旋转 → 裁剪 → 缩放 → 水印 → 按目标大小压缩
+ * @param source 图片来源
+ * @param options 配置项
+ * @returns 处理结果，可转换为 base64 或 File
+ */
+export async function processImage(
+	source: ImageSource,
+	options: ImageProcessOptions = {},
+): Promise<ImageResult> {
+	const { image, blob: original } = await resolveSource(source);
+	let oriented: HTMLImageElement | HTMLCanvasElement = image;
+	if (original && (options.orientation ?? true) && !isAutoOriented()) {
+		const orientation = await getImageOrientation(original);
+		if (orientation > 1) oriented = drawOriented(oriented, orientation);
+	}
+	// 顺时针旋转对应的 EXIF 方向
+	const rotation = ({ 0: 1, 90: 6, 180: 3, 270: 8 } as const)[
+		options.rotate ?? 0
+	];
+	if (rotation > 1) oriented = drawOriented(oriented, rotation);
+
+	const size = sizeOf(oriented);
+	const crop = clampCrop(options.crop, size);
+	const fit = Math.min(
+		1,
+		(options.maxWidth ?? Number.POSITIVE_INFINITY) / crop.width,
+		(options.maxHeight ?? Number.POSITIVE_INFINITY) / crop.height,
+	);
+	const format =
+		options.format ??
+		(Object.keys(MIME_TYPES) as ImageFormat[]).find(
+			(key) => MIME_TYPES[key] === original?.type,
+		) ??
+		"jpeg";
+	let type = MIME_TYPES[format];
+	// 水印图片只加载一次，按目标大小压缩时会多次绘制
+	const mark = options.watermark?.image
+		? (await resolveSource(options.watermark.image)).image
+		: undefined;
+
+	const render = (scale: number) => {
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.max(1, Math.round(crop.width * scale));
+		canvas.height = Math.max(1, Math.round(crop.height * scale));
+		const context = canvas.getContext("2d") as CanvasRenderingContext2D;
+		if (type === MIME_TYPES.jpeg) {
+			context.fillStyle = options.background ?? "#fff";
+			context.fillRect(0, 0, canvas.width, canvas.height);
+		}
+		context.imageSmoothingQuality = "high";
+		context.drawImage(
+			oriented,
+			crop.x,
+			crop.y,
+			crop.width,
+			crop.height,
+			0,
+			0,
+			canvas.width,
+			canvas.height,
+		);
+		if (options.watermark) drawWatermark(canvas, options.watermark, mark);
+		return canvas;
+	};
+
+	const maxSize = options.maxSize ?? Number.POSITIVE_INFINITY;
+	const minQuality = options.minQuality ?? 0.1;
+	let quality = options.quality ?? 0.92;
+	let scale = fit;
+	let canvas = render(scale);
+	let blob = await toBlob(canvas, type, quality);
+	while (blob.size > maxSize) {
+		if (type === MIME_TYPES.png) {
+			// png 为无损格式，无法通过质量压缩
+			type = MIME_TYPES.jpeg;
+			canvas = render(scale);
+			blob = await toBlob(canvas, type, quality);
+			continue;
+		}
+		const lowest = await toBlob(canvas, type, minQuality);
+		if (lowest.size > maxSize) {
+			// 最低质量仍超出时缩小尺寸
+			if (canvas.width <= 1 && canvas.height <= 1) {
+				blob = lowest;
+				quality = minQuality;
+				break;
+			}
+			scale *= 0.8;
+			canvas = render(scale);
+			blob = await toBlob(canvas, type, quality);
+			continue;
+		}
+		// 二分查找满足大小的最高质量
+		let low = minQuality;
+		let high = quality;
+		blob = lowest;
+		quality = minQuality;
+		for (let i = 0; i < 7; i++) {
+			const middle = (low + high) / 2;
+			const candidate = await toBlob(canvas, type, middle);
+			if (candidate.size <= maxSize) {
+				blob = candidate;
+				quality = middle;
+				low = middle;
+			} else {
+				high = middle;
+			}
+		}
+		break;
+	}
+
+	const result = blob;
+	return {
+		blob: result,
+		width: canvas.width,
+		height: canvas.height,
+		quality,
+		type: result.type,
+		toBase64: () =>
+			new Promise<string>((resolve, reject) => {
+				const reader = new FileReader();
+				reader.onload = () => resolve(reader.result as string);
+				reader.onerror = () =>
+					reject(new Error("[processImage]：读取图片失败"));
+				reader.readAsDataURL(result);
+			}),
+		toFile: (filename) => {
+			const extension = result.type.split("/")[1] ?? "jpeg";
+			const base =
+				source instanceof File ? source.name.replace(/\.[^.]*$/, "") : "image";
+			return new File([result], filename ?? `${base}.${extension}`, {
+				type: result.type,
+				lastModified: Date.now(),
+			});
+		},
+	};
+}
@@ -1,3 +1,158 @@
+import {
+	addDate,
+	addWorkdays,
+	clearHolidays,
+	type DateRange,
+	type DateUnit,
+	diffDate,
+	eachDate,
+	endOf,
+	getDaysInMonth,
+	getHoliday,
+	getISOWeekYear,
+	getMonthGrid,
+	type HolidayData,
+	isInRange,
+	isRangeOverlap,
+	isWorkday,
+	registerHolidays,
+	startOf,
+	subtractDate,
+	type WeekOptions,
+} from "./calendar";
+import {
+	ClipboardError,
+	copyHTML,
+	copyImage,
+	copyText,
+	readClipboard,
+	readText,
+} from "./clipboard";
+import {
+	Countdown,
+	type CountdownOptions,
+	formatCountdown,
+	syncServerTime,
+} from "./countdown";
+import {
+	type DateFormatOptions,
+	type DateLocale,
+	type DateParseOptions,
+	formatDate,
+	getISOWeek,
+	parseDate,
+	type RelativeTimeOptions,
+	registerDateLocale,
+	relativeTime,
+	setDateLocale,
+} from "./date";
+import {
+	DownloadManager,
+	type DownloadOptions,
+	type DownloadResource,
+	type DownloadResult,
+} from "./download";
+import {
+	getImageOrientation,
+	type ImageProcessOptions,
+	type ImageSource,
+	processImage,
+} from "./image";
+import {
+	type ParseQueryOptions,
+	parseQuery,
+	type StringifyQueryOptions,
+	stringifyQuery,
+} from "./query";
+import {
+	createMultipartAdapter,
+	createPresignedAdapter,
+	FileUploader,
+	type MultipartAdapterOptions,
+	type PresignedAdapterOptions,
+	type UploadOptions,
+} from "./upload";
+import {
+	createZip,
+	createZipStream,
+	readZip,
+	type ZipEntry,
+	type ZipOptions,
+} from "./zip";
+
+export type {
+	CalendarDay,
+	DateRange,
+	DateUnit,
+	HolidayData,
+	HolidayInfo,
+	WeekOptions,
+} from "./calendar";
+export type {
+	ClipboardContent,
+	ClipboardError,
+	ClipboardErrorCode,
+} from "./clipboard";
+export type {
+	Countdown,
+	CountdownOptions,
+	CountdownState,
+	CountdownStatus,
+} from "./countdown";
+export type {
+	DateFormatOptions,
+	DateInput,
+	DateLocale,
+	DateParseOptions,
+	RelativeTimeLocale,
+	RelativeTimeOptions,
+} from "./date";
+export type {
+	DownloadManager,
+	DownloadOptions,
+	DownloadProgress,
+	DownloadResource,
+	DownloadResult,
+	DownloadStatus,
+	DownloadTask,
+} from "./download";
+export type {
+	ImageCrop,
+	ImageFormat,
+	ImageProcessOptions,
+	ImageResult,
+	ImageSource,
+	ImageWatermark,
+	WatermarkPosition,
+} from "./image";
+export type {
+	ParseQueryOptions,
+	QueryFieldType,
+	QuerySchema,
+	QueryValueType,
+	StringifyQueryOptions,
+} from "./query";
+export type {
+	FileUploader,
+	MultipartAdapterOptions,
+	PresignedAdapterOptions,
+	UploadAdapter,
+	UploadCheckResult,
+	UploadContext,
+	UploadOptions,
+	UploadPart,
+	UploadProgress,
+	UploadResult,
+	UploadStatus,
+	UploadStorage,
+} from "./upload";
+export type {
+	ZipCompression,
+	ZipEntry,
+	ZipOptions,
+	ZipReaderEntry,
+} from "./zip";
+
 /**
  * 全局声明
  */
@@ -22,6 +177,8 @@ interface ITrackEs {
 }
 
 class Tools {
+	/** 剪贴板错误，可通过 error instanceof Tools.ClipboardError 判断 */
+	public static readonly ClipboardError = ClipboardError;
 	// 构造单例
 	private static instance: Tools;
 	private constructor() {}
@@ -33,56 +190,78 @@ class Tools {
 	}
 	/**
 	 * 获取queryString参数值
-	 * @param key
-	 * @param queryString
+	 * 未传入 queryString 时解析当前页面地址（包含 hash 路由中的参数，如 `#/path?x=1`）
+	 * @param key 参数名，不传时返回全部参数
+	 * @param queryString 查询字符串或 URL
+	 * @param options 解析配置（嵌套、逗号数组、类型转换 schema 等），参考 parseQuery
 	 * @returns T
 	 */
-	public static query<T = any>(key?: string | null, queryString?: string) {
-		let s = "";
-		if (queryString) {
-			s = /^http/.test(queryString) ? queryString.split("?")[1] : queryString;
-		} else {
-			s = window.location.search;
-		}
-		if (s) {
-			s = /\?/.test(s) ? s.slice(1) : s;
-			const o: Record<string, any> = {};
-			s.split("&").forEach((item) => {
-				if (/=/.test(item)) {
-					const t = item.split("=");
-					const k = t[0];
-					const v = t[1];
-					o[k] = v ? decodeURIComponent(v) : undefined;
-				}
-			});
-			if (key) {
-				return (key ? (o[key] ? o[key] : "") : o) as T;
-			} else {
-				return o as T;
-			}
-		}
-		return (key ? "" : {}) as unknown as T;
+	public static query<T = any>(
+		key?: string | null,
+		queryString?: string,
+		options?: ParseQueryOptions,
+	) {
+		const input =
+			queryString ??
+			(typeof window !== "undefined" ? window.location.href : "");
+		const o = parseQuery(input, options);
+		return (key ? (o[key] ?? "") : o) as T;
+	}
+	/**
+	 * 解析查询字符串
+	 * eg. ?a=1&a=2&b[c]=3 --> { a: ["1", "2"], b: { c: "3" } }
+	 * 支持完整 URL 及 hash 路由（`#/path?x=1`），`+` 解析为空格
+	 * @param input 查询字符串或 URL
+	 * @param options 解析配置
+	 * - allowDots：是否解析点号嵌套（d.e=4 --> { d: { e: "4" } }），默认 false
+	 * - comma：是否将逗号分隔的值解析为数组，默认 false
+	 * - depth：最大嵌套深度，默认 5
+	 * - schema：类型转换，如 { page: "number", ids: ["number"], active: "boolean", from: "date" }
+	 * @returns
+	 */
+	public static parseQuery<T = Record<string, any>>(
+		input: string,
+		options?: ParseQueryOptions,
+	) {
+		return parseQuery<T>(input, options);
+	}
+	/**
+	 * 序列化为查询字符串，与 parseQuery 使用相同格式时可还原
+	 * eg. { a: [1, 2], b: { c: 3 } } --> a=1&a=2&b[c]=3
+	 * @param data 数据
+	 * @param options 序列化配置
+	 * - arrayFormat：数组格式 repeat（默认）/ brackets / indices / comma
+	 * - objectFormat：嵌套对象格式 brackets（默认）/ dots
+	 * - addPrefix：是否添加 `?` 前缀，默认 false
+	 * - skipNull：是否跳过 null，默认 false
+	 * - skipUndefined：是否跳过 undefined，默认 true
+	 * - sort：是否按键名排序
+	 * @returns
+	 */
+	public static stringifyQuery(
+		data: Record<string, any>,
+		options?: StringifyQueryOptions,
+	) {
+		return stringifyQuery(data, options);
 	}
 	/**
 	 * 将对象转换为query参数
 	 * eg. {name: 'muzili', age: 30} --> ?name=muzili&age=30
 	 * @param obj
 	 * @param hasPrefix 是否需要添加 `?` 前缀，默认true
+	 * @param options 序列化配置，参考 stringifyQuery，值为 undefined 的字段默认序列化为 key=
 	 */
 	public static convertToQueryWith(
-		obj: Record<string, string | number | boolean>,
+		obj: Record<string, any>,
 		hasPrefix = true,
+		options?: Omit<StringifyQueryOptions, "addPrefix">,
 	) {
 		if (!obj || Tools.toRawType(obj) !== "object") return "";
-		let res = hasPrefix ? "?" : "";
-		Object.keys(obj).forEach((key: string) => {
-			const v = obj[key];
-			res += `${key}=${v !== undefined ? encodeURIComponent(v) : ""}&`;
+		return stringifyQuery(obj, {
+			skipUndefined: false,
+			...options,
+			addPrefix: hasPrefix,
 		});
-		if (res) {
-			return res.slice(0, res.length - 1);
-		}
-		return res;
 	}
 
 	/**
@@ -100,62 +279,287 @@ class Tools {
 
 	/**
 	 * 处理日期格式
+	 * 占位符：YYYY YY M MM MMM MMMM D DD d dd ddd dddd H HH h hh m mm s ss SSS A a Q W WW Z ZZ X x，[] 中的内容原样输出
 	 * @param v  时间戳 / 日期字符串 / 日期对象
 	 * @param format 格式 YYYY-MM-DD HH:mm:ss dddd
+	 * @param options 配置项
+	 * - locale：语言，默认 zh-CN
+	 * - utcOffset：输出所在时区相对 UTC 的偏移（分钟），默认本地时区
+	 * - invalid：日期无效时的输出，默认 "-"
 	 */
 	public static dateFormat(
 		v: number | string | Date,
 		format: string = "YYYY-MM-DD HH:mm:ss",
+		options?: DateFormatOptions,
 	) {
-		// 格式处理
-		const padZero = (n: number | string): string =>
-			n.toString().padStart(2, "0");
+		return formatDate(v, format, options);
+	}
 
-		// 处理 iOS 日期格式兼容性问题
-		// 由于 iOS 在微信小程序中不支持 2024-01-01 00:00:00 创建日期
-		// 因此需要特殊处理将参数转换为成 2024/01/01 00:00:00 格式
-		if (
-			typeof v === "string" &&
-			/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(v)
-		) {
-			v = v.replace(/-/g, "/");
-		}
+	/**
+	 * 解析日期字符串
+	 * eg. parseDate("2024年1月2日 下午3点", "YYYY年M月D日 Ah点")
+	 * @param input 日期字符串
+	 * @param format 格式，占位符同 dateFormat；不传时按通用格式解析（兼容 iOS）
+	 * @param options 配置项
+	 * - locale：语言，用于解析月份 / 星期名称及上午 / 下午
+	 * - utcOffset：日期字符串所在时区相对 UTC 的偏移（分钟），默认本地时区
+	 * @returns 无法解析或日期不存在时返回 null
+	 */
+	public static parseDate(
+		input: string,
+		format?: string,
+		options?: DateParseOptions,
+	) {
+		return parseDate(input, format, options);
+	}
 
-		// 尝试使用 Date 对象进行解析
-		const date = new Date(v);
-		if (Number.isNaN(date.getTime())) {
-			return "-";
-		}
+	/**
+	 * 相对时间
+	 * eg. 3分钟前 / 2天后 / in 2 days
+	 * @param v 时间戳 / 日期字符串 / 日期对象
+	 * @param options 配置项
+	 * - base：比较的基准时间，默认当前时间
+	 * - locale：语言
+	 * - withoutSuffix：是否省略前后缀
+	 */
+	public static relativeTime(
+		v: number | string | Date,
+		options?: RelativeTimeOptions,
+	) {
+		return relativeTime(v, options);
+	}
+
+	/**
+	 * 注册日期语言包（内置 zh-CN、en-US）
+	 * @param locale
+	 */
+	public static registerDateLocale(locale: DateLocale) {
+		registerDateLocale(locale);
+	}
 
-		// 获取日期各部分
-		const year = date.getFullYear().toString();
-		const month = padZero(date.getMonth() + 1);
-		const day = padZero(date.getDate());
-		const hour = padZero(date.getHours());
-		const minute = padZero(date.getMinutes());
-		const second = padZero(date.getSeconds());
-
-		// 获取中文星期几
-		const weekdays = [
-			"星期日",
-			"星期一",
-			"星期二",
-			"星期三",
-			"星期四",
-			"星期五",
-			"星期六",
-		];
-		const dayOfWeek = weekdays[date.getDay()];
-
-		// 替换格式化字符串中的占位符
-		return format
-			.replace(/YYYY/gi, year)
-			.replace(/MM/, month)
-			.replace(/DD/, day)
-			.replace(/HH/, hour)
-			.replace(/mm/, minute)
-			.replace(/ss/, second)
-			.replace(/dddd/, dayOfWeek);
+	/**
+	 * 设置日期默认语言，默认 zh-CN
+	 * @param name
+	 */
+	public static setDateLocale(name: string) {
+		setDateLocale(name);
+	}
+
+	/**
+	 * 日期加上一段时间，按月 / 季度 / 年计算时超出目标月份天数则取月末
+	 * eg. addDate("2024-01-31", 1, "month") --> 2024-02-29
+	 * @param v 日期
+	 * @param amount 数量，可为负数
+	 * @param unit 单位 year / quarter / month / week / isoWeek / day / hour / minute / second / millisecond
+	 * @returns 新的日期对象
+	 */
+	public static addDate(
+		v: number | string | Date,
+		amount: number,
+		unit: DateUnit,
+	) {
+		return addDate(v, amount, unit);
+	}
+
+	/**
+	 * 日期减去一段时间，规则同 addDate
+	 * @param v 日期
+	 * @param amount 数量
+	 * @param unit 单位
+	 * @returns 新的日期对象
+	 */
+	public static subtractDate(
+		v: number | string | Date,
+		amount: number,
+		unit: DateUnit,
+	) {
+		return subtractDate(v, amount, unit);
+	}
+
+	/**
+	 * 单位的起始时间
+	 * eg. startOf(date, "month") --> 当月 1 日 00:00:00.000
+	 * @param v 日期
+	 * @param unit 单位
+	 * @param options weekStart：一周的第一天，默认 0（星期日），isoWeek 始终为星期一
+	 * @returns 新的日期对象
+	 */
+	public static startOf(
+		v: number | string | Date,
+		unit: DateUnit,
+		options?: WeekOptions,
+	) {
+		return startOf(v, unit, options);
+	}
+
+	/**
+	 * 单位的结束时间
+	 * eg. endOf(date, "month") --> 当月最后一天 23:59:59.999
+	 * @param v 日期
+	 * @param unit 单位
+	 * @param options weekStart：一周的第一天，默认 0（星期日）
+	 * @returns 新的日期对象
+	 */
+	public static endOf(
+		v: number | string | Date,
+		unit: DateUnit,
+		options?: WeekOptions,
+	) {
+		return endOf(v, unit, options);
+	}
+
+	/**
+	 * 计算两个日期的差值（a - b）
+	 * eg. diffDate("2024-03-01", "2024-01-31", "month") --> 1
+	 * @param a 日期
+	 * @param b 被减的日期
+	 * @param unit 单位，默认 millisecond
+	 * @param float 是否返回小数，默认 false（向零取整）
+	 * @returns
+	 */
+	public static diffDate(
+		a: number | string | Date,
+		b: number | string | Date,
+		unit?: DateUnit,
+		float?: boolean,
+	) {
+		return diffDate(a, b, unit, float);
+	}
+
+	/**
+	 * ISO 周数（周一为一周的第一天，包含当年第一个星期四的周为第 1 周）
+	 * @param v 日期
+	 * @returns
+	 */
+	public static getISOWeek(v: number | string | Date) {
+		return getISOWeek(v);
+	}
+
+	/**
+	 * ISO 周所属的年份（如 2021-01-03 属于 2020 年第 53 周）
+	 * @param v 日期
+	 * @returns
+	 */
+	public static getISOWeekYear(v: number | string | Date) {
+		return getISOWeekYear(v);
+	}
+
+	/**
+	 * 获取某月的天数
+	 * @param year 年
+	 * @param month 月，1 ~ 12
+	 * @returns
+	 */
+	public static getDaysInMonth(year: number, month: number) {
+		return getDaysInMonth(year, month);
+	}
+
+	/**
+	 * 月份日历（6 行 7 列），使用上月末及下月初的日期补齐，用于日期选择器
+	 * 每一天包含 date / year / month / day / weekday / inMonth / isToday / isWeekend / isWorkday / holiday
+	 * @param year 年
+	 * @param month 月，1 ~ 12
+	 * @param options weekStart：一周的第一天，默认 0（星期日）
+	 * @returns
+	 */
+	public static getMonthGrid(
+		year: number,
+		month: number,
+		options?: WeekOptions,
+	) {
+		return getMonthGrid(year, month, options);
+	}
+
+	/**
+	 * 按单位遍历日期范围（包含起止时间）
+	 * eg. eachDate("2024-01-31", "2024-04-30", "month") --> [01-31, 02-29, 03-31, 04-30]
+	 * @param start 开始日期
+	 * @param end 结束日期
+	 * @param unit 单位，默认 day
+	 * @param step 步长，默认 1
+	 * @returns
+	 */
+	public static eachDate(
+		start: number | string | Date,
+		end: number | string | Date,
+		unit?: DateUnit,
+		step?: number,
+	) {
+		return eachDate(start, end, unit, step);
+	}
+
+	/**
+	 * 日期是否在范围内
+	 * @param v 日期
+	 * @param range 日期范围 { start, end }
+	 * @param inclusive 是否包含起止时间，默认 true
+	 * @returns
+	 */
+	public static isInRange(
+		v: number | string | Date,
+		range: DateRange,
+		inclusive?: boolean,
+	) {
+		return isInRange(v, range, inclusive);
+	}
+
+	/**
+	 * 两个日期范围是否重叠
+	 * @param a 日期范围 { start, end }
+	 * @param b 日期范围 { start, end }
+	 * @param inclusive 首尾相接是否视为重叠，默认 true
+	 * @returns
+	 */
+	public static isRangeOverlap(
+		a: DateRange,
+		b: DateRange,
+		inclusive?: boolean,
+	) {
+		return isRangeOverlap(a, b, inclusive);
+	}
+
+	/**
+	 * 注册节假日数据（键为 YYYY-MM-DD，off 为 true 表示放假，false 表示调休上班），与已注册的数据合并
+	 * eg. registerHolidays({ "2024-02-10": { name: "春节", off: true }, "2024-02-04": { name: "春节", off: false } })
+	 * @param data
+	 */
+	public static registerHolidays(data: HolidayData) {
+		registerHolidays(data);
+	}
+
+	/**
+	 * 清空已注册的节假日数据
+	 */
+	public static clearHolidays() {
+		clearHolidays();
+	}
+
+	/**
+	 * 获取节假日信息，调休上班日返回 off 为 false 的数据，非节假日返回 undefined
+	 * @param v 日期
+	 * @returns
+	 */
+	public static getHoliday(v: number | string | Date) {
+		return getHoliday(v);
+	}
+
+	/**
+	 * 是否为工作日（调休上班日为工作日，放假日为非工作日，其余按周一至周五判断）
+	 * @param v 日期
+	 * @returns
+	 */
+	public static isWorkday(v: number | string | Date) {
+		return isWorkday(v);
+	}
+
+	/**
+	 * 加上若干个工作日
+	 * @param v 日期
+	 * @param amount 工作日数量，可为负数
+	 * @returns 新的日期对象，日期无效时返回无效日期
+	 */
+	public static addWorkdays(v: number | string | Date, amount: number) {
+		return addWorkdays(v, amount);
 	}
 
 	/**
@@ -217,25 +621,49 @@ class Tools {
 		return `${(pixel / 375) * 100}vw`;
 	}
 	/**
-	 * 剪贴板
+	 * 复制文本到剪贴板，优先使用 navigator.clipboard，不可用时使用 textarea 降级（保留换行，兼容 iOS）
+	 * eg. Tools.clipboard("第一行\n第二行").catch((error) => error instanceof Tools.ClipboardError && console.log(error.code));
 	 * @param value 复制内容
-	 * @returns Promise
+	 * @returns Promise，失败时 reject ClipboardError，code 为 unsupported / insecure-context / permission-denied / failed
 	 */
 	public static clipboard(value: string) {
-		return new Promise((resolve, reject) => {
-			const input = document.createElement("input");
-			input.setAttribute("value", value);
-			document.body.appendChild(input);
-
-			input.select();
-			const result = document.execCommand("copy");
-			document.body.removeChild(input);
-			if (result) {
-				resolve(null);
-			} else {
-				reject();
-			}
-		});
+		return copyText(value);
+	}
+
+	/**
+	 * 复制富文本，粘贴到支持富文本的编辑器时保留格式
+	 * @param html HTML 片段
+	 * @param text 纯文本，默认为 html 去除标签后的文本
+	 * @returns
+	 */
+	public static copyHTML(html: string, text?: string) {
+		return copyHTML(html, text);
+	}
+
+	/**
+	 * 复制图片，非 PNG 图片会先转换为 PNG
+	 * eg. Tools.copyImage(fetch(url).then((res) => res.blob())); // Safari 需在点击事件中同步调用，可传入 Promise
+	 * @param image 图片或返回图片的 Promise
+	 * @returns
+	 */
+	public static copyImage(image: Blob | Promise<Blob>) {
+		return copyImage(image);
+	}
+
+	/**
+	 * 读取剪贴板中的文本（需用户授权）
+	 * @returns
+	 */
+	public static readClipboardText() {
+		return readText();
+	}
+
+	/**
+	 * 读取剪贴板中的文本、富文本及图片（需用户授权）
+	 * @returns { text, html, images }
+	 */
+	public static readClipboard() {
+		return readClipboard();
 	}
 
 	/**
@@ -271,8 +699,6 @@ class Tools {
 
 		let counter = timeStamp;
 		const interval = type === "default" ? 1000 : 100;
-		let lastTime = performance.now();
-		let animationFrameId: number;
 
 		const f = (n: number | string) => {
 			if (mode === "seconds") return String(n);
@@ -315,38 +741,64 @@ class Tools {
 			pending(res);
 		};
 
-		const tick = () => {
-			const currentTime = performance.now();
-			const deltaTime = currentTime - lastTime;
-			if (deltaTime >= interval) {
-				counter -= interval;
-				lastTime = currentTime;
+		// 基于结束时间计算剩余时间，避免页面切到后台或定时器节流时产生误差
+		const countdown = new Countdown({
+			duration: timeStamp,
+			interval,
+			onTick: ({ remaining }) => {
+				counter = Math.ceil(remaining / interval) * interval;
 				if (counter > 0) {
 					if (mode === "default") calcForDefault();
 					if (mode === "seconds") calcForSeconds();
 				}
-			}
-			if (counter > 0) {
-				animationFrameId = requestAnimationFrame(tick);
-			} else {
-				complete();
-			}
-		};
-
-		if (counter <= 0) {
-			complete();
-		} else {
-			if (mode === "default") calcForDefault();
-			if (mode === "seconds") calcForSeconds();
-			animationFrameId = requestAnimationFrame(tick);
-		}
+			},
+			onComplete: complete,
+		});
 
 		// 返回销毁函数
-		return () => {
-			if (animationFrameId) {
-				cancelAnimationFrame(animationFrameId);
-			}
-		};
+		return () => countdown.destroy();
+	}
+
+	/**
+	 * 倒计时控制器，支持暂停 / 继续 / 重置 / 增加时间，多个倒计时共用一个定时器
+	 * 剩余时间由结束时间与当前（服务器）时间计算，页面切到后台后返回时立即校正
+	 * eg. Tools.countdown({ endTime, onTick: (state, countdown) => (el.textContent = countdown.format("DD天 HH:mm:ss")) })
+	 * @param options 配置项
+	 * @param options.endTime     结束时间（服务器时间），与 duration 二选一
+	 * @param options.duration    剩余时长，单位毫秒
+	 * @param options.serverOffset 服务器时间与本地时间的差值，默认使用 syncServerTime 设置的值
+	 * @param options.interval    更新间隔，默认 1000
+	 * @param options.autoStart   是否立即开始，默认 true
+	 * @param options.onTick      显示的值变化时触发，参数为 (state, countdown)，自动开始时首次触发在创建后的微任务中
+	 * @param options.onComplete  倒计时结束
+	 * @returns
+	 */
+	public static countdown(options: CountdownOptions) {
+		return new Countdown(options);
+	}
+
+	/**
+	 * 同步服务器时间，以 endTime 创建的倒计时（包括进行中的）以服务器时间计算，使各端倒计时一致
+	 * @param serverTime 服务器时间
+	 * @param requestStart 发起请求时的本地时间戳，传入时校正网络延迟
+	 * @returns 服务器时间与本地时间的差值，单位毫秒
+	 */
+	public static syncServerTime(
+		serverTime: number | string | Date,
+		requestStart?: number,
+	) {
+		return syncServerTime(serverTime, requestStart);
+	}
+
+	/**
+	 * 格式化剩余时间，格式中最大的单位累计更大单位的值
+	 * eg. formatCountdown(90061000, "DD天 HH:mm:ss") --> 01天 01:01:01；formatCountdown(90061000, "HH:mm") --> 25:01
+	 * @param ms 剩余时间，单位毫秒
+	 * @param format 格式 D DD H HH m mm s ss SSS S，[] 中的内容原样输出，默认 HH:mm:ss
+	 * @returns
+	 */
+	public static formatCountdown(ms: number, format?: string) {
+		return formatCountdown(ms, format);
 	}
 
 	/**
@@ -484,6 +936,7 @@ class Tools {
 
 	/**
 	 * 获取年份集合
+	 * @deprecated 请使用 eachDate 遍历年份后自行格式化
 	 * @param start 开始年/默认值：1970
 	 * @param end 结束年/默认值：当前年
 	 * @returns
@@ -501,6 +954,7 @@ class Tools {
 	/**
 	 * 获取月份集合：[1-12]
 	 * @returns
+	 * @deprecated 请使用 getMonthGrid 等日历方法
 	 */
 	public static getMonths() {
 		const months: string[] = [];
@@ -511,29 +965,16 @@ class Tools {
 	}
 	/**
 	 * 获取某月的天数集合
+	 * @deprecated 请使用 getDaysInMonth / getMonthGrid
 	 * @param options 可选项/如果赋值，则表示获取精确天数，默认为31天即[1-31]
 	 * @returns
 	 */
 	public static getDays(options?: { year: number; month: number }) {
-		const days: string[] = [];
-		let max = 31;
-		if (options) {
-			const { year, month } = options;
-			if ([4, 6, 9, 11].indexOf(month) !== -1) {
-				max = 30;
-			} else if (month === 2) {
-				// 计算是否闰年
-				if ((year % 4 === 0 && year % 100 !== 0) || year % 400 === 0) {
-					max = 29;
-				} else {
-					max = 28;
-				}
-			}
-		}
-		for (let i = 1; i <= max; i++) {
-			days.push(`${i < 10 ? `0${i}` : i.toString()}日`);
-		}
-		return days;
+		const max = options ? getDaysInMonth(options.year, options.month) : 31;
+		return Array.from(
+			{ length: max },
+			(_, i) => `${(i + 1).toString().padStart(2, "0")}日`,
+		);
 	}
 
 	/**
@@ -544,178 +985,72 @@ class Tools {
 	 * 2. 处理文件格式问题：不同的浏览器可能对不同的文件格式支持程度不同。因此，需要确保服务器提供的文件格式兼容各种浏览器，即指定 Content-Type。
 	 *    当服务器不知道文件的确切 MIME 类型时，会使用 binary/octet-stream 作为默认值，导致浏览器会将这种 MIME 类型的数据作为二进制文件进行处理，通常会提示用户下载该文件。
 	 * 3. 部分浏览器无法下载：可能是因为浏览器会发送两次请求，第一次，HEAD 请求，判断文件是否存在，第二次，发送 GET 请求，下载文件。因此安全规则需要加入 HEAD 请求和 GET 请求。
+	 * 4. 读取 Content-Disposition 中的文件名时，跨域请求需要服务端通过 Access-Control-Expose-Headers 暴露该响应头。
 	 *
 	 * @param resources  资源数组，Array<{ source: string | Blob; filename?: string }>
 	 * @param mode 下载类型：link｜blob，默认值 blob
-	 * @returns
+	 * @param options 配置项
+	 * - concurrency：最大并发数，默认 3
+	 * - retry / retryDelay：失败重试次数（默认 2）及首次重试延迟（默认 1000ms，之后每次翻倍）
+	 * - zip：是否打包为一个 zip 文件下载，传入字符串时为压缩包文件名
+	 * - signal：取消下载
+	 * - onProgress / onFileComplete / onFileError：进度、单个文件成功及失败回调
+	 * @returns 下载结果 { tasks, succeeded, failed, aborted, zip }
 	 */
 	public static async downloadFiles(
-		resources: Array<{
-			source: string | Blob;
-			filename?: string;
-		}>,
+		resources: DownloadResource[],
 		mode: "link" | "blob" = "blob",
-	): Promise<void> {
-		// -- 异常处理
-		if (!resources || resources.length === 0) {
-			throw new Error("[downloadFiles]：未传入下载源");
-		}
-
-		// -- 下载方法
-		const download = (href: string, filename: string) => {
-			const a = document.createElement("a");
-			a.style.display = "none";
-			a.href = href;
-			a.download = filename;
-			document.body.appendChild(a);
-			a.click();
-			document.body.removeChild(a);
-			if (mode === "blob") {
-				setTimeout(() => URL.revokeObjectURL(href), 1000); // 延迟释放 Blob URL，确保下载完成后再释放。
-			}
-		};
-
-		// -- MIME 类型到扩展名的映射表
-		const mimeToExtension: { [key: string]: string } = {
-			// 常见文档类型
-			"application/pdf": ".pdf",
-			"application/msword": ".doc",
-			"application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-				".docx",
-			"application/vnd.ms-excel": ".xls",
-			"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
-				".xlsx",
-			"application/vnd.ms-powerpoint": ".ppt",
-			"application/vnd.openxmlformats-officedocument.presentationml.presentation":
-				".pptx",
-			"text/plain": ".txt",
-			"text/csv": ".csv",
-			"application/json": ".json",
-			"application/xml": ".xml",
-			"application/zip": ".zip",
-			"application/x-rar-compressed": ".rar",
-			"application/x-tar": ".tar",
-			"application/x-7z-compressed": ".7z",
-
-			// 常见图片类型
-			"image/jpeg": ".jpg",
-			"image/png": ".png",
-			"image/gif": ".gif",
-			"image/svg+xml": ".svg",
-			"image/webp": ".webp",
-			"image/bmp": ".bmp",
-			"image/tiff": ".tiff",
-
-			// 常见音频类型
-			"audio/mpeg": ".mp3",
-			"audio/wav": ".wav",
-			"audio/ogg": ".ogg",
-			"audio/aac": ".aac",
-			"audio/webm": ".webm",
-
-			// 常见视频类型
-			"video/mp4": ".mp4",
-			"video/mpeg": ".mpeg",
-			"video/ogg": ".ogv",
-			"video/webm": ".webm",
-			"video/x-msvideo": ".avi",
-			"video/quicktime": ".mov",
-			"video/x-matroska": ".mkv",
-
-			// 其他常见类型
-			"application/octet-stream": ".bin",
-			"application/x-binary": ".bin",
-			"application/x-download": ".bin",
-		};
-
-		// -- 根据 MIME 类型获取文件扩展名
-		const getExtensionFromMimeType = (mimeType: string): string => {
-			return mimeToExtension[mimeType] || ".bin";
-		};
-
-		// -- 生成文件名
-		const generateFilename = (
-			source: string | Blob,
-			filename?: string,
-		): string => {
-			// -- 文件名
-			let __filename = filename ?? "file";
-			let __extension = ".bin";
-
-			if (typeof source === "string") {
-				const urlObj = new URL(source);
-				const pathname = urlObj.pathname;
-
-				// 如果没有提供文件名，则从 URL 的路径中提取文件名
-				if (!filename) {
-					const start = pathname.lastIndexOf("/") + 1;
-					const end =
-						pathname.lastIndexOf(".") !== -1
-							? pathname.lastIndexOf(".")
-							: pathname.length;
-					__filename = pathname.slice(start, end);
-				}
-
-				// 获取扩展名
-				const dotIndex = pathname.lastIndexOf(".");
-				if (dotIndex !== -1 && dotIndex < pathname.length - 1) {
-					__extension = pathname.slice(dotIndex);
-				}
-			} else {
-				// 获取 Blob 类型的扩展名
-				__extension = getExtensionFromMimeType(source.type);
-			}
-
-			// -- 拼接文件名和扩展名
-			return __filename.endsWith(__extension)
-				? __filename
-				: __filename + __extension;
-		};
+		options?: Omit<DownloadOptions, "mode">,
+	): Promise<DownloadResult> {
+		return new DownloadManager(resources, { ...options, mode }).start();
+	}
 
-		// -- 转换成 blob 并下载
-		const convertToBlob = async (url: string, filename: string) => {
-			try {
-				const response = await fetch(url, { mode: "cors" });
-				if (!response.ok) {
-					throw new Error(
-						`[downloadFiles]：下载失败，HTTP ${response.status} ${response.statusText}`,
-					);
-				}
-				const blobData = await response.blob();
-				download(URL.createObjectURL(blobData), filename);
-			} catch (error: any) {
-				throw new Error(`[downloadFiles]：下载失败，${error.message}`);
-			}
-		};
+	/**
+	 * 创建下载管理器，用于获取进度及取消下载
+	 * eg. const manager = Tools.createDownloader(resources, { zip: true }); manager.start(); manager.abort();
+	 * @param resources 资源数组
+	 * @param options 配置项，同 downloadFiles，另支持 mode 及 save（是否保存到本地，默认 true）
+	 * @returns 下载管理器：tasks / progress / start / abort
+	 */
+	public static createDownloader(
+		resources: DownloadResource[],
+		options?: DownloadOptions,
+	) {
+		return new DownloadManager(resources, options);
+	}
 
-		// -- 批量下载
-		const downloadPromises = resources.map((resource) => {
-			const { source, filename } = resource;
-			const __filename = generateFilename(source, filename);
+	/**
+	 * 生成 ZIP 压缩包，支持目录及 store / deflate 两种压缩方式，文件名使用 UTF-8 编码
+	 * eg. const zip = await Tools.createZip([{ name: "导出/订单.csv", data: csv }, { name: "images/1.png", data: blob, compression: "store" }]);
+	 * @param entries 文件列表：name 路径（以 / 分隔目录）、data 内容（Blob / 字符串 / ArrayBuffer / Uint8Array / ReadableStream）、directory 是否为目录、lastModified 修改时间、compression 压缩方式
+	 * @param options 配置项
+	 * - compression：压缩方式，默认 deflate（环境不支持 CompressionStream 时为 store）
+	 * - comment：压缩包注释
+	 * @returns application/zip 类型的 Blob
+	 */
+	public static createZip(entries: ZipEntry[], options?: ZipOptions) {
+		return createZip(entries, options);
+	}
 
-			if (typeof source === "string") {
-				if (mode === "blob") {
-					return convertToBlob(source, __filename);
-				} else {
-					download(source, __filename);
-					return Promise.resolve();
-				}
-			} else {
-				download(URL.createObjectURL(source), __filename);
-				return Promise.resolve();
-			}
-		});
+	/**
+	 * 以流的方式生成 ZIP 压缩包，按需读取及压缩文件内容，适用于大文件（不超过 4GB）
+	 * eg. await Tools.createZipStream(entries).pipeTo(await handle.createWritable());
+	 * @param entries 文件列表，同 createZip
+	 * @param options 配置项，同 createZip
+	 * @returns ReadableStream
+	 */
+	public static createZipStream(entries: ZipEntry[], options?: ZipOptions) {
+		return createZipStream(entries, options);
+	}
 
-		await Promise.allSettled(downloadPromises).then((results) => {
-			results.forEach((result, index) => {
-				if (result.status === "rejected") {
-					console.warn(
-						`[downloadFiles]：下载失败，${resources[index].source}`,
-						result.reason,
-					);
-				}
-			});
-		});
+	/**
+	 * 读取 ZIP 压缩包（如用户上传的 File），文件内容按需解压
+	 * eg. const entries = await Tools.readZip(file); const text = await entries[0].text();
+	 * @param source 压缩包
+	 * @returns 条目列表：name / directory / size / compressedSize / lastModified / blob() / arrayBuffer() / text()
+	 */
+	public static readZip(source: Blob | ArrayBuffer | Uint8Array) {
+		return readZip(source);
 	}
 
 	/**
@@ -778,6 +1113,64 @@ class Tools {
 		return filePath;
 	}
 
+	/**
+	 * 分片上传文件：计算 MD5 秒传检查、并发上传分片、失败重试，进度保存在 localStorage 中，刷新页面后重新选择同一文件可断点续传
+	 * eg. const { url } = await Tools.uploadFile(file, { adapter, key: (file) => Tools.getFilePath(file, "images") });
+	 * @param file 文件
+	 * @param options 配置项
+	 * - adapter：上传适配器，通过 createPresignedAdapter / createMultipartAdapter 创建或自行实现
+	 * - key：对象存储中的文件路径，默认为文件名
+	 * - chunkSize：分片大小，默认 5MB
+	 * - concurrency：最大并发数，默认 3
+	 * - retry：分片失败后的重试次数，默认 3
+	 * - retryDelay：首次重试的延迟，默认 1000ms
+	 * - hash：是否计算 MD5，默认 true
+	 * - resume：是否保存进度，默认 true
+	 * - storage：保存进度的存储，默认 localStorage
+	 * - signal：取消上传
+	 * - onHashProgress / onProgress：计算 MD5 及上传的进度
+	 * @returns 上传结果 { key, hash, uploadId, url, parts, instant }
+	 */
+	public static uploadFile(file: File, options: UploadOptions) {
+		return new FileUploader(file, options).start();
+	}
+
+	/**
+	 * 创建分片上传器，用于暂停、继续及取消上传
+	 * eg. const uploader = Tools.createUploader(file, { adapter }); uploader.start(); uploader.pause(); uploader.resume();
+	 * @param file 文件
+	 * @param options 配置项，同 uploadFile
+	 * @returns 上传器：status / progress / start / pause / resume / abort
+	 */
+	public static createUploader(file: File, options: UploadOptions) {
+		return new FileUploader(file, options);
+	}
+
+	/**
+	 * 创建预签名地址上传适配器，每个分片 PUT 到服务端签发的地址（需在存储桶跨域配置中暴露 ETag）
+	 * eg. Tools.createPresignedAdapter({ init, sign: async ({ key, uploadId }, index) => url, complete })
+	 * @param options sign 获取分片的上传地址，check / init / complete / abort 同上传适配器
+	 * @returns
+	 */
+	public static createPresignedAdapter(options: PresignedAdapterOptions) {
+		return createPresignedAdapter(options);
+	}
+
+	/**
+	 * 创建表单分片上传适配器，对接业务服务端的分片上传接口
+	 * eg. Tools.createMultipartAdapter({ url: "/api/upload/chunk", checkUrl: "/api/upload/check", mergeUrl: "/api/upload/merge" })
+	 * @param options 配置项
+	 * - url：分片上传地址，以 multipart/form-data 提交 file、index、chunkCount、key、hash、uploadId
+	 * - checkUrl：秒传检查地址，响应 { exists, url, uploaded }
+	 * - initUrl：创建上传任务地址，响应 { uploadId }
+	 * - mergeUrl：合并分片地址，响应 { url }
+	 * - fieldName / headers / credentials / formData：分片字段名、请求头、是否携带 cookie 及额外字段
+	 * @returns
+	 */
+	public static createMultipartAdapter(options: MultipartAdapterOptions) {
+		return createMultipartAdapter(options);
+	}
+
 	/**
 	 * 将 Base64 字符串转换为 Uint8Array
 	 * @param {string} base64String - Base64 字符串
@@ -859,6 +1252,60 @@ class Tools {
 			}
 		});
 	}
+	/**
+	 * 图片处理：EXIF 方向校正 → 旋转 → 裁剪 → 缩放 → 水印 → 按目标大小压缩
+	 * eg. const result = await Tools.processImage(file, { maxWidth: 1080, maxSize: 200 * 1024, format: "webp" });
+	 * @param source 图片来源：File / Blob / 图片地址（含 base64）/ 图片元素 / canvas
+	 * @param options 配置项
+	 * - maxWidth / maxHeight：最大宽高，超出时等比缩小
+	 * - crop：裁剪区域 { x, y, width, height }，超出图片的部分会被截去，与图片无交集时抛出错误
+	 * - rotate：顺时针旋转角度 0 / 90 / 180 / 270
+	 * - orientation：是否根据 EXIF 校正方向，默认 true
+	 * - watermark：文字或图片水印
+	 * - format：输出格式 jpeg / png / webp，默认与原图一致
+	 * - quality：输出质量，默认 0.92
+	 * - maxSize：目标大小（字节），超出时二分查找满足大小的最高质量
+	 * - minQuality：最低质量，默认 0.1
+	 * - background：输出 jpeg 时透明区域的背景色，默认 #fff
+	 * @returns { blob, width, height, quality, type, toBase64(), toFile() }
+	 */
+	public static processImage(
+		source: ImageSource,
+		options?: ImageProcessOptions,
+	) {
+		return processImage(source, options);
+	}
+
+	/**
+	 * 压缩图片至目标大小以内，默认限制最大宽高为 1920
+	 * eg. const file = (await Tools.compressImage(input.files[0], 500 * 1024)).toFile();
+	 * @param source 图片来源
+	 * @param maxSize 目标大小，单位字节
+	 * @param options 配置项，同 processImage
+	 * @returns
+	 */
+	public static compressImage(
+		source: ImageSource,
+		maxSize: number,
+		options?: ImageProcessOptions,
+	) {
+		return processImage(source, {
+			maxWidth: 1920,
+			maxHeight: 1920,
+			...options,
+			maxSize,
+		});
+	}
+
+	/**
+	 * 读取 JPEG 的 EXIF 方向（1 ~ 8），非 JPEG 或无方向信息时返回 1
+	 * @param blob 图片文件
+	 * @returns
+	 */
+	public static getImageOrientation(blob: Blob) {
+		return getImageOrientation(blob);
+	}
+
 	/**
 	 * 动态加载script标签
 	 * @param src {string | string[]} 加载脚本的地址，
@@ -989,24 +1436,19 @@ class Tools {
 
 	/**
 	 * 获取上一天
+	 * @deprecated 请使用 subtractDate(new Date(), 1, "day")
 	 * @returns 返回日期对象
 	 */
 	public static getLastDay() {
-		return new Date(Date.now() - 24 * 60 * 60 * 1000);
+		return subtractDate(Date.now(), 1, "day");
 	}
 	/**
 	 * 获取上一月
-	 * @returns 返回日期对象
+	 * @deprecated 请使用 startOf(subtractDate(new Date(), 1, "month"), "month")
+	 * @returns 返回日期对象（上月 1 日 00:00:00）
 	 */
 	public static getLastMonth() {
-		const date = new Date();
-		let year = date.getFullYear();
-		let month = date.getMonth();
-		if (month === 0) {
-			year = year - 1;
-			month = 12;
-		}
-		return new Date(`${year}-${month}`);
+		return startOf(subtractDate(Date.now(), 1, "month"), "month");
 	}
 	/**
 	 * 函数防抖
@@ -1210,45 +1652,20 @@ class Tools {
 	/**
 	 * 解析日期字符串
 	 * 一般用于根据年月筛选时，将日期字符串返回起始传递给后端（严格上来讲后端处理即可）
-	 * 如：2022-02，返回 {start: '202-02-01 00:00:00', end: '202-02-28 23:59:59'}
+	 * 如：2022-02，返回 {start: '2022-02-01 00:00:00', end: '2022-02-28 23:59:59'}
+	 * @deprecated 请使用 startOf / endOf 配合 dateFormat
 	 * @param dateString 日期字符串，格式：YYYY-MM
 	 * @returns
 	 */
 	public static analysisDateString(dateString: string) {
-		if (typeof dateString !== "string") {
-			return { start: undefined, end: undefined };
-		}
-		// -- 解构日期字符串
-		const [year, month] = dateString.split("-");
-		// -- 异常处理
-		if (Number.isNaN(Number(year)) || Number.isNaN(Number(month))) {
+		const date =
+			typeof dateString === "string" ? parseDate(dateString, "YYYY-M") : null;
+		if (!date) {
 			return { start: undefined, end: undefined };
 		}
-		// -- 计算平年 & 闰年
-		let isLeapYear = false;
-		if ((+year % 4 === 0 && +year % 100 !== 0) || +year % 400 === 0) {
-			isLeapYear = true;
-		}
-		// -- 处理
-		const dayArr = [
-			31,
-			isLeapYear ? 29 : 28,
-			31,
-			30,
-			31,
-			30,
-			31,
-			31,
-			30,
-			31,
-			30,
-			31,
-		];
-		const days = dayArr[+month - 1];
-		// -- 返回
 		return {
-			start: `${dateString}-01 00:00:00`,
-			end: `${dateString}-${days < 10 ? `0${days}` : days} 23:59:59`,
+			start: formatDate(startOf(date, "month")),
+			end: formatDate(endOf(date, "month")),
 		};
 	}
 
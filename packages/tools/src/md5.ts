@@ -0,0 +1,124 @@
+/** 每轮循环左移的位数 */
+const SHIFTS = [
+	7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+	9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+	16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+	21,
+];
+
+/** 常量表：floor(abs(sin(i + 1)) * 2^32) */
+const CONSTANTS = Array.from(
+	{ length: 64 },
+	(_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0,
+);
+
+/**
+ * 增量计算 MD5，可分段传入数据，适用于大文件
+ *
+ * @example
+ * const md5 = new MD5();
+ * md5.update(new Uint8Array(await file.slice(0, size).arrayBuffer()));
+ * md5.digest(); // --> "9e107d9d372bb6826bd81d3542a419d6"
+ */
+export class MD5 {
+	private state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+	/** 不足 64 字节的剩余数据 */
+	private buffer = new Uint8Array(64);
+	private bufferLength = 0;
+	/** 已传入的总字节数 */
+	private length = 0;
+	private words = new Int32Array(16);
+
+	/**
+	 * 追加数据，字符串按 UTF-8 编码
+	 */
+	public update(data: Uint8Array | ArrayBuffer | string) {
+		const bytes =
+			typeof data === "string"
+				? new TextEncoder().encode(data)
+				: data instanceof ArrayBuffer
+					? new Uint8Array(data)
+					: data;
+		this.length += bytes.length;
+		let offset = 0;
+		if (this.bufferLength > 0) {
+			offset = Math.min(64 - this.bufferLength, bytes.length);
+			this.buffer.set(bytes.subarray(0, offset), this.bufferLength);
+			this.bufferLength += offset;
+			if (this.bufferLength < 64) return this;
+			this._block(this.buffer, 0);
+			this.bufferLength = 0;
+		}
+		for (; offset + 64 <= bytes.length; offset += 64)
+			this._block(bytes, offset);
+		if (offset < bytes.length) {
+			this.buffer.set(bytes.subarray(offset));
+			this.bufferLength = bytes.length - offset;
+		}
+		return this;
+	}
+
+	/**
+	 * 计算结果，之后不可再追加数据
+	 * @returns 32 位小写十六进制字符串
+	 */
+	public digest() {
+		const bits = this.length * 8;
+		const padLength = (this.bufferLength < 56 ? 56 : 120) - this.bufferLength;
+		const padding = new Uint8Array(padLength + 8);
+		padding[0] = 0x80;
+		const view = new DataView(padding.buffer);
+		view.setUint32(padLength, bits >>> 0, true);
+		view.setUint32(padLength + 4, Math.floor(bits / 2 ** 32), true);
+		this.update(padding);
+		let hex = "";
+		for (const word of this.state) {
+			for (let i = 0; i < 4; i++) {
+				hex += ((word >>> (i * 8)) & 0xff).toString(16).padStart(2, "0");
+			}
+		}
+		return hex;
+	}
+
+	/**
+	 * 处理一个 64 字节的数据块
+	 */
+	private _block(bytes: Uint8Array, offset: number) {
+		const words = this.words;
+		for (let i = 0; i < 16; i++) {
+			const p = offset + i * 4;
+			words[i] =
+				bytes[p] |
+				(bytes[p + 1] << 8) |
+				(bytes[p + 2] << 16) |
+				(bytes[p + 3] << 24);
+		}
+		let [a, b, c, d] = this.state;
+		for (let i = 0; i < 64; i++) {
+			let f: number;
+			let g: number;
+			if (i < 16) {
+				f = (b & c) | (~b & d);
+				g = i;
+			} else if (i < 32) {
+				f = (d & b) | (~d & c);
+				g = (5 * i + 1) % 16;
+			} else if (i < 48) {
+				f = b ^ c ^ d;
+				g = (3 * i + 5) % 16;
+			} else {
+				f = c ^ (b | ~d);
+				g = (7 * i) % 16;
+			}
+			const x = (a + f + CONSTANTS[i] + words[g]) | 0;
+			a = d;
+			d = c;
+			c = b;
+			b = (b + ((x << SHIFTS[i]) | (x >>> (32 - SHIFTS[i])))) | 0;
+		}
+		this.state[0] = (this.state[0] + a) | 0;
+		this.state[1] = (this.state[1] + b) | 0;
+		this.state[2] = (this.state[2] + c) | 0;
+		this.state[3] = (this.state[3] + d) | 0;
+	}
+}
@@ -0,0 +1,348 @@
+import { toDate } from "./date";
+
+/** 字段类型，函数时为自定义转换 */
+export type QueryValueType =
+	| "string"
+	| "number"
+	| "boolean"
+	| "date"
+	| ((value: any) => unknown);
+
+/** 字段类型定义：基础类型、嵌套对象或数组（[类型]） */
+export type QueryFieldType =
+	| QueryValueType
+	| QuerySchema
+	| [QueryValueType | QuerySchema];
+
+/** 类型转换 schema，未定义的字段保持字符串 */
+export interface QuerySchema {
+	[key: string]: QueryFieldType;
+}
+
+export interface ParseQueryOptions {
+	/** 是否解析点号嵌套（a.b=1），默认 false；方括号嵌套（a[b]=1）始终解析 */
+	allowDots?: boolean;
+	/** 是否将逗号分隔的值解析为数组（a=1,2），默认 false */
+	comma?: boolean;
+	/** 最大嵌套深度，超出部分作为一个键，默认 5 */
+	depth?: number;
+	/** 类型转换 schema，如 { page: "number", ids: ["number"], active: "boolean", from: "date" } */
+	schema?: QuerySchema;
+}
+
+export interface StringifyQueryOptions {
+	/**
+	 * 数组格式，默认 repeat
+	 * - repeat：a=1&a=2
+	 * - brackets：a[]=1&a[]=2
+	 * - indices：a[0]=1&a[1]=2
+	 * - comma：a=1,2
+	 * 数组元素为对象时始终使用 indices
+	 */
+	arrayFormat?: "repeat" | "brackets" | "indices" | "comma";
+	/** 嵌套对象格式：brackets a[b]=1（默认），dots a.b=1 */
+	objectFormat?: "brackets" | "dots";
+	/** 是否添加 `?` 前缀（结果为空时不添加），默认 false */
+	addPrefix?: boolean;
+	/** 是否跳过值为 null 的字段，默认 false（序列化为 a=） */
+	skipNull?: boolean;
+	/** 是否跳过值为 undefined 的字段，默认 true；为 false 时序列化为 a= */
+	skipUndefined?: boolean;
+	/** 是否按键名排序，传入函数时为自定义排序 */
+	sort?: boolean | ((a: string, b: string) => number);
+}
+
+/** 不允许写入的键，避免原型污染 */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+/** 数组索引上限，超出时作为对象键，避免 a[99999]=1 生成超大数组 */
+const ARRAY_LIMIT = 20;
+
+/**
+ * 解析查询字符串
+ * 支持完整 URL、`?a=1`、`a=1` 及 hash 路由（`#/path?x=1`），search 与 hash 中的参数合并解析；
+ * 重复的键解析为数组，支持方括号嵌套及可选的点号嵌套，`+` 解析为空格
+ * @param input 查询字符串或 URL
+ * @param options 解析配置
+ * @returns
+ */
+export function parseQuery<T = Record<string, any>>(
+	input: string,
+	options: ParseQueryOptions = {},
+): T {
+	const { allowDots = false, comma = false, depth = 5, schema } = options;
+	const result: Record<string, any> = {};
+	for (const pair of extractQuery(input).split("&")) {
+		if (!pair) continue;
+		const index = pair.indexOf("=");
+		const rawKey = index === -1 ? pair : pair.slice(0, index);
+		const rawValue = index === -1 ? "" : pair.slice(index + 1);
+		const path = parseKeyPath(rawKey, allowDots, depth);
+		if (!path) continue;
+		const value =
+			comma && rawValue.includes(",")
+				? rawValue.split(",").map(decode)
+				: decode(rawValue);
+		assign(result, path, value);
+	}
+	compact(result);
+	return (schema ? coerceObject(result, schema) : result) as T;
+}
+
+/**
+ * 序列化为查询字符串，与 parseQuery 使用相同格式时可还原
+ * 值为 Date 时序列化为 ISO 字符串，空数组及空对象不输出
+ * @param data 数据
+ * @param options 序列化配置
+ * @returns
+ */
+export function stringifyQuery(
+	data: Record<string, any>,
+	options: StringifyQueryOptions = {},
+) {
+	const {
+		arrayFormat = "repeat",
+		objectFormat = "brackets",
+		addPrefix = false,
+		skipNull = false,
+		skipUndefined = true,
+		sort,
+	} = options;
+	const pairs: string[] = [];
+	const getKeys = (target: object) => {
+		const keys = Object.keys(target);
+		if (sort) keys.sort(typeof sort === "function" ? sort : undefined);
+		return keys;
+	};
+	const serialize = (prefix: string, value: unknown) => {
+		if (typeof value === "function" || typeof value === "symbol") return;
+		if (value === undefined) {
+			if (!skipUndefined) pairs.push(`${prefix}=`);
+			return;
+		}
+		if (value === null) {
+			if (!skipNull) pairs.push(`${prefix}=`);
+			return;
+		}
+		if (Array.isArray(value)) {
+			const hasObject = value.some(
+				(item) => item && typeof item === "object" && !(item instanceof Date),
+			);
+			const format = hasObject ? "indices" : arrayFormat;
+			if (format === "comma") {
+				const items = value
+					.filter((item) => item !== undefined && item !== null)
+					.map(encodeValue);
+				if (items.length > 0) pairs.push(`${prefix}=${items.join(",")}`);
+				return;
+			}
+			value.forEach((item, index) => {
+				if (format === "repeat") serialize(prefix, item);
+				else if (format === "brackets") serialize(`${prefix}[]`, item);
+				else serialize(`${prefix}[${index}]`, item);
+			});
+			return;
+		}
+		if (typeof value === "object" && !(value instanceof Date)) {
+			for (const key of getKeys(value)) {
+				const segment = encodeKey(key);
+				serialize(
+					objectFormat === "dots"
+						? `${prefix}.${segment}`
+						: `${prefix}[${segment}]`,
+					(value as Record<string, unknown>)[key],
+				);
+			}
+			return;
+		}
+		pairs.push(`${prefix}=${encodeValue(value)}`);
+	};
+	if (data && typeof data === "object") {
+		for (const key of getKeys(data)) serialize(encodeKey(key), data[key]);
+	}
+	const query = pairs.join("&");
+	return addPrefix && query ? `?${query}` : query;
+}
+
+/**
+ * 提取 URL 中 search 及 hash 路由部分的查询字符串
+ */
+function extractQuery(input: string) {
+	const hashIndex = input.indexOf("#");
+	const main = hashIndex === -1 ? input : input.slice(0, hashIndex);
+	const hash = hashIndex === -1 ? "" : input.slice(hashIndex + 1);
+	const parts: string[] = [];
+	const searchIndex = main.indexOf("?");
+	if (searchIndex !== -1) {
+		parts.push(main.slice(searchIndex + 1));
+	} else if (!/^[a-z][a-z\d+\-.]*:/i.test(main) && !main.startsWith("/")) {
+		// 不含 ? 且不是 URL / 路径时视为查询字符串本身
+		parts.push(main);
+	}
+	const hashSearchIndex = hash.indexOf("?");
+	if (hashSearchIndex !== -1) parts.push(hash.slice(hashSearchIndex + 1));
+	return parts.filter(Boolean).join("&");
+}
+
+/**
+ * 解析键路径：a[b][]、a.b → ["a", "b", ""]
+ * 先拆分再解码，编码后的点号（%2E）不会被当作分隔符
+ * @returns 键路径，键为空时返回 null
+ */
+function parseKeyPath(rawKey: string, allowDots: boolean, depth: number) {
+	let key = rawKey.replace(/%5B/gi, "[").replace(/%5D/gi, "]");
+	if (allowDots) key = key.replace(/\.([^.[\]]+)/g, "[$1]");
+	const bracketIndex = key.indexOf("[");
+	const root = bracketIndex > 0 ? key.slice(0, bracketIndex) : key;
+	const path = [root];
+	if (bracketIndex > 0) {
+		let rest = key.slice(bracketIndex);
+		let match = /^\[([^[\]]*)\]/.exec(rest);
+		while (match && path.length <= depth) {
+			path.push(match[1]);
+			rest = rest.slice(match[0].length);
+			match = /^\[([^[\]]*)\]/.exec(rest);
+		}
+		// 超出深度或格式不完整的部分作为一个键
+		if (rest) path.push(rest);
+	}
+	const decoded = path.map(decode);
+	return decoded[0] ? decoded : null;
+}
+
+/**
+ * 按键路径写入值
+ */
+function assign(target: Record<string, any>, path: string[], value: unknown) {
+	let parent: any = null;
+	let parentKey: string | number = "";
+	let container: any = target;
+	if (path.some((segment) => UNSAFE_KEYS.has(segment))) return;
+	for (let i = 0; i < path.length; i++) {
+		const segment = path[i];
+		let key: string | number = segment;
+		if (Array.isArray(container)) {
+			if (segment === "") key = container.length;
+			else if (isIndex(segment)) key = Number(segment);
+			else {
+				// 数组中出现非索引键时转为对象
+				container = { ...container };
+				parent[parentKey] = container;
+			}
+		} else if (segment === "" && i > 0) {
+			key = Object.keys(container).length;
+		}
+		if (i === path.length - 1) {
+			const existing = container[key];
+			if (existing === undefined) {
+				container[key] = value;
+			} else if (Array.isArray(existing)) {
+				existing.push(...(Array.isArray(value) ? value : [value]));
+			} else {
+				// 重复的键解析为数组
+				container[key] = [existing].concat(value);
+			}
+			return;
+		}
+		let child = container[key];
+		// 已有同名的普通值（如 a=1&a[b]=2）时保留该值，忽略嵌套的值
+		if (child !== undefined && child !== null && typeof child !== "object") {
+			return;
+		}
+		if (!child) {
+			child = isIndex(path[i + 1]) ? [] : {};
+			container[key] = child;
+		}
+		parent = container;
+		parentKey = key;
+		container = child;
+	}
+}
+
+/**
+ * 移除稀疏数组中的空位（如 a[2]=x 生成的数组）
+ */
+function compact(target: Record<string, any>) {
+	for (const key of Object.keys(target)) {
+		const value = target[key];
+		if (Array.isArray(value)) {
+			target[key] = value.filter(() => true);
+			compact(target[key]);
+		} else if (value && typeof value === "object") {
+			compact(value);
+		}
+	}
+}
+
+/**
+ * 按 schema 转换对象
+ */
+function coerceObject(target: Record<string, any>, schema: QuerySchema) {
+	const result: Record<string, any> = { ...target };
+	for (const key of Object.keys(schema)) {
+		if (key in result) result[key] = coerce(result[key], schema[key]);
+	}
+	return result;
+}
+
+/**
+ * 按字段类型转换值
+ */
+function coerce(value: any, type: QueryFieldType): unknown {
+	if (Array.isArray(type)) {
+		const list = Array.isArray(value) ? value : [value];
+		return list.map((item) => coerce(item, type[0]));
+	}
+	if (typeof type === "object") {
+		return value && typeof value === "object" && !Array.isArray(value)
+			? coerceObject(value, type)
+			: undefined;
+	}
+	// 期望单个值却出现重复的键时取最后一个
+	const raw = Array.isArray(value) ? value[value.length - 1] : value;
+	if (typeof type === "function") return type(raw);
+	if (typeof raw !== "string") return raw;
+	switch (type) {
+		case "number": {
+			const number = raw.trim() === "" ? Number.NaN : Number(raw);
+			return Number.isNaN(number) ? undefined : number;
+		}
+		case "boolean":
+			return raw === "true" || raw === "1" || raw === "on";
+		case "date": {
+			const date = toDate(/^-?\d+$/.test(raw) ? Number(raw) : raw);
+			return Number.isNaN(date.getTime()) ? undefined : date;
+		}
+		default:
+			return raw;
+	}
+}
+
+function isIndex(segment: string) {
+	return segment === "" || (/^\d+$/.test(segment) && +segment <= ARRAY_LIMIT);
+}
+
+/**
+ * 解码，`+` 视为空格，格式错误时返回原字符串
+ */
+function decode(value: string) {
+	const text = value.replace(/\+/g, " ");
+	try {
+		return decodeURIComponent(text);
+	} catch {
+		return text;
+	}
+}
+
+function encodeKey(key: string) {
+	// 编码点号，避免解析时被当作嵌套分隔符
+	return encodeURIComponent(key).replace(/\./g, "%2E");
+}
+
+function encodeValue(value: unknown) {
+	if (value instanceof Date) {
+		return encodeURIComponent(
+			Number.isNaN(value.getTime()) ? "" : value.toISOString(),
+		);
+	}
+	return encodeURIComponent(String(value));
+}
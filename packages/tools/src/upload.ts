@@ -0,0 +1,627 @@
+import { sleep } from "./download";
+import { MD5 } from "./md5";
+
+/** 上传状态：等待中 / 计算哈希中 / 上传中 / 已暂停 / 成功 / 失败 / 已取消 */
+export type UploadStatus =
+	| "pending"
+	| "hashing"
+	| "uploading"
+	| "paused"
+	| "success"
+	| "error"
+	| "aborted";
+
+/** 上传上下文，传给适配器的各个方法 */
+export interface UploadContext {
+	file: File;
+	/** 对象存储中的文件路径 */
+	key: string;
+	/** 文件内容的 MD5，options.hash 为 false 时为空 */
+	hash?: string;
+	chunkSize: number;
+	chunkCount: number;
+	/** init 返回的上传任务 ID */
+	uploadId?: string;
+	/** 适配器自定义数据，随上传进度一起保存 */
+	data: Record<string, any>;
+}
+
+/** 已上传的分片 */
+export interface UploadPart {
+	/** 分片序号，从 0 开始 */
+	index: number;
+	size: number;
+	/** 分片的 ETag（分片上传合并时需要） */
+	etag?: string;
+}
+
+/** 秒传检查结果 */
+export interface UploadCheckResult {
+	/** 文件已存在，跳过上传 */
+	exists?: boolean;
+	/** 文件已存在时的访问地址 */
+	url?: string;
+	/** 服务端已存在的分片序号，这些分片不再上传 */
+	uploaded?: number[];
+}
+
+/**
+ * 上传适配器，对接不同的上传协议
+ * 调用顺序：check（秒传检查）→ init（创建上传任务）→ uploadChunk（并发上传分片）→ complete（合并分片）
+ */
+export interface UploadAdapter {
+	/** 秒传检查 */
+	check?(context: UploadContext): Promise<UploadCheckResult | undefined>;
+	/** 创建上传任务，返回 uploadId；从保存的进度恢复时不会再次调用 */
+	init?(context: UploadContext): Promise<string | undefined>;
+	/** 上传分片，失败时抛出错误（错误对象包含 status 时仅 408 / 429 / 5xx 重试） */
+	uploadChunk(
+		chunk: Blob,
+		index: number,
+		context: UploadContext,
+		signal: AbortSignal,
+	): Promise<Pick<UploadPart, "etag"> | undefined>;
+	/** 全部分片上传完成，返回文件的访问地址 */
+	complete?(
+		context: UploadContext,
+		parts: UploadPart[],
+	): Promise<string | undefined>;
+	/** 取消上传，如通知服务端删除已上传的分片 */
+	abort?(context: UploadContext): Promise<void>;
+}
+
+/** 保存上传进度的存储，默认 localStorage */
+export type UploadStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export interface UploadProgress {
+	/** 已上传的字节数（按完成的分片计算） */
+	loaded: number;
+	total: number;
+	/** 百分比 0 ~ 100 */
+	percent: number;
+	/** 已上传的分片数 */
+	uploaded: number;
+	chunkCount: number;
+}
+
+export interface UploadOptions {
+	/** 上传适配器，可使用 createPresignedAdapter / createMultipartAdapter 创建 */
+	adapter: UploadAdapter;
+	/** 对象存储中的文件路径，默认为文件名；从保存的进度恢复时使用之前的路径 */
+	key?: string | ((file: File) => string);
+	/** 分片大小，单位字节，默认 5MB（S3 / OSS 分片上传除最后一片外不能小于 5MB） */
+	chunkSize?: number;
+	/** 最大并发数，默认 3 */
+	concurrency?: number;
+	/** 分片失败后的重试次数（仅网络错误及 408 / 429 / 5xx），默认 3 */
+	retry?: number;
+	/** 首次重试的延迟，之后每次翻倍，单位毫秒，默认 1000 */
+	retryDelay?: number;
+	/** 是否计算文件 MD5 用于秒传检查，默认 true */
+	hash?: boolean;
+	/** 是否保存上传进度，刷新页面后重新选择同一文件可继续上传，默认 true */
+	resume?: boolean;
+	/** 保存进度的存储，默认 localStorage */
+	storage?: UploadStorage;
+	/** 取消上传 */
+	signal?: AbortSignal;
+	/** 计算 MD5 的进度，百分比 0 ~ 100 */
+	onHashProgress?: (percent: number) => void;
+	/** 上传进度 */
+	onProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadResult {
+	key: string;
+	hash?: string;
+	uploadId?: string;
+	/** 文件的访问地址（由适配器返回） */
+	url?: string;
+	parts: UploadPart[];
+	/** 是否为秒传 */
+	instant: boolean;
+}
+
+/** 保存的上传进度 */
+interface UploadRecord {
+	key: string;
+	hash?: string;
+	uploadId?: string;
+	parts: UploadPart[];
+	data: Record<string, any>;
+}
+
+/** 计算 MD5 时每次读取的大小 */
+const HASH_SLICE_SIZE = 2 * 1024 * 1024;
+
+/**
+ * 请求失败的错误，包含 HTTP 状态码
+ */
+function httpError(response: Response) {
+	return Object.assign(
+		new Error(
+			`[upload]：上传失败，HTTP ${response.status} ${response.statusText}`,
+		),
+		{ status: response.status },
+	);
+}
+
+/**
+ * 预签名地址适配器配置，check / init / complete / abort 与 UploadAdapter 相同（通常请求业务服务端）
+ */
+export interface PresignedAdapterOptions
+	extends Omit<UploadAdapter, "uploadChunk"> {
+	/** 获取分片的预签名上传地址（如服务端调用 S3 UploadPart / OSS 签名接口生成） */
+	sign(
+		context: UploadContext,
+		index: number,
+	): Promise<
+		string | { url: string; method?: string; headers?: Record<string, string> }
+	>;
+}
+
+/**
+ * 预签名地址适配器：每个分片 PUT 到服务端签发的地址，并记录响应头中的 ETag
+ * 注意：需在存储桶的跨域配置中暴露 ETag 响应头
+ *
+ * @example
+ * const adapter = createPresignedAdapter({
+ *   init: async ({ key }) => (await api.createMultipart(key)).uploadId,
+ *   sign: async ({ key, uploadId }, index) => (await api.signPart(key, uploadId, index + 1)).url,
+ *   complete: async ({ key, uploadId }, parts) => (await api.completeMultipart(key, uploadId, parts)).url,
+ * });
+ */
+export function createPresignedAdapter(
+	options: PresignedAdapterOptions,
+): UploadAdapter {
+	const { sign, ...rest } = options;
+	return {
+		...rest,
+		async uploadChunk(chunk, index, context, signal) {
+			const signed = await sign(context, index);
+			const {
+				url,
+				method = "PUT",
+				headers,
+			} = typeof signed === "string" ? { url: signed } : signed;
+			const response = await fetch(url, {
+				method,
+				headers,
+				body: chunk,
+				signal,
+			});
+			if (!response.ok) throw httpError(response);
+			return { etag: response.headers.get("ETag") ?? undefined };
+		},
+	};
+}
+
+export interface MultipartAdapterOptions {
+	/** 分片上传地址，以 multipart/form-data POST：file（分片）、index、chunkCount、key、hash、uploadId */
+	url: string;
+	/** 秒传检查地址，POST JSON { key, hash, filename, size, chunkCount }，响应 { exists, url, uploaded } */
+	checkUrl?: string;
+	/** 创建上传任务地址，POST JSON { key, hash, filename, size, chunkCount }，响应 { uploadId } */
+	initUrl?: string;
+	/** 合并分片地址，POST JSON { key, hash, uploadId, filename, chunkCount, parts }，响应 { url } */
+	mergeUrl?: string;
+	/** 分片字段名，默认 file */
+	fieldName?: string;
+	/** 请求头，如 Authorization */
+	headers?: Record<string, string>;
+	/** 是否携带 cookie，默认 same-origin */
+	credentials?: RequestCredentials;
+	/** 分片请求的额外字段 */
+	formData?: (context: UploadContext, index: number) => Record<string, string>;
+}
+
+/**
+ * 表单分片适配器：对接业务服务端自行实现的分片上传接口
+ *
+ * @example
+ * const adapter = createMultipartAdapter({ url: "/api/upload/chunk", checkUrl: "/api/upload/check", mergeUrl: "/api/upload/merge" });
+ */
+export function createMultipartAdapter(
+	options: MultipartAdapterOptions,
+): UploadAdapter {
+	const { headers, credentials } = options;
+	const post = async (url: string, context: UploadContext, extra = {}) => {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json", ...headers },
+			credentials,
+			body: JSON.stringify({
+				key: context.key,
+				hash: context.hash,
+				uploadId: context.uploadId,
+				filename: context.file.name,
+				size: context.file.size,
+				chunkCount: context.chunkCount,
+				...extra,
+			}),
+		});
+		if (!response.ok) throw httpError(response);
+		const text = await response.text();
+		return text ? JSON.parse(text) : {};
+	};
+	return {
+		check: options.checkUrl
+			? (context) => post(options.checkUrl as string, context)
+			: undefined,
+		init: options.initUrl
+			? async (context) =>
+					(await post(options.initUrl as string, context)).uploadId
+			: undefined,
+		async uploadChunk(chunk, index, context, signal) {
+			const form = new FormData();
+			form.append(options.fieldName ?? "file", chunk, context.file.name);
+			form.append("index", String(index));
+			form.append("chunkCount", String(context.chunkCount));
+			form.append("key", context.key);
+			if (context.hash) form.append("hash", context.hash);
+			if (context.uploadId) form.append("uploadId", context.uploadId);
+			const extra = options.formData?.(context, index) ?? {};
+			for (const name of Object.keys(extra)) form.append(name, extra[name]);
+			const response = await fetch(options.url, {
+				method: "POST",
+				headers,
+				credentials,
+				body: form,
+				signal,
+			});
+			if (!response.ok) throw httpError(response);
+			return { etag: response.headers.get("ETag") ?? undefined };
+		},
+		complete: options.mergeUrl
+			? async (context, parts) =>
+					(await post(options.mergeUrl as string, context, { parts })).url
+			: undefined,
+	};
+}
+
+/**
+ * 分片上传：计算 MD5 用于秒传检查、并发上传分片、失败重试、暂停 / 继续，
+ * 上传进度保存在 localStorage 中，刷新页面后重新选择同一文件可从已上传的分片继续
+ *
+ * @example
+ * const uploader = new FileUploader(file, { adapter, onProgress: (p) => console.log(p.percent) });
+ * pauseButton.onclick = () => uploader.pause();
+ * const { url } = await uploader.start();
+ */
+export class FileUploader {
+	/** 上传上下文 */
+	public readonly context: UploadContext;
+	private _status: UploadStatus = "pending";
+	/** 已上传的分片 */
+	private parts = new Map<number, UploadPart>();
+	private controller = new AbortController();
+	/** 是否已取消 */
+	private aborted = false;
+	/** 是否已停止（取消或某个分片失败），其余分片不再上传 */
+	private stopped = false;
+	/** 暂停前的状态 */
+	private pausedFrom: UploadStatus = "uploading";
+	/** 暂停时等待继续 */
+	private waiter: { promise: Promise<void>; resolve: () => void } | undefined;
+	private running: Promise<UploadResult> | undefined;
+	private storage: UploadStorage | undefined;
+	/** 保存进度使用的键 */
+	private recordKey: string;
+
+	constructor(
+		file: File,
+		private options: UploadOptions,
+	) {
+		if (!file) throw new Error("[upload]：未传入文件");
+		if (!options?.adapter) throw new Error("[upload]：未传入上传适配器");
+		const chunkSize = Math.max(1, options.chunkSize ?? 5 * 1024 * 1024);
+		this.storage =
+			options.resume === false
+				? undefined
+				: (options.storage ??
+					(typeof localStorage !== "undefined" ? localStorage : undefined));
+		this.recordKey = `upload:${file.name}:${file.size}:${file.lastModified}:${chunkSize}`;
+		let record = this._read();
+		// 指定了不同的路径时不使用保存的进度
+		if (typeof options.key === "string" && record?.key !== options.key) {
+			record = undefined;
+		}
+		const key =
+			record?.key ??
+			(typeof options.key === "function"
+				? options.key(file)
+				: (options.key ?? file.name));
+		this.context = {
+			file,
+			key,
+			hash: record?.hash,
+			chunkSize,
+			chunkCount: Math.max(1, Math.ceil(file.size / chunkSize)),
+			uploadId: record?.uploadId,
+			data: record?.data ?? {},
+		};
+		for (const part of record?.parts ?? []) this.parts.set(part.index, part);
+		const { signal } = options;
+		if (signal?.aborted) this.abort();
+		signal?.addEventListener("abort", () => this.abort(), { once: true });
+	}
+
+	/** 当前状态 */
+	public get status() {
+		return this._status;
+	}
+
+	/** 上传进度 */
+	public get progress(): UploadProgress {
+		let loaded = 0;
+		for (const part of this.parts.values()) loaded += part.size;
+		const total = this.context.file.size;
+		return {
+			loaded,
+			total,
+			percent: total > 0 ? Math.min(100, (loaded / total) * 100) : 0,
+			uploaded: this.parts.size,
+			chunkCount: this.context.chunkCount,
+		};
+	}
+
+	/**
+	 * 开始上传，重复调用返回同一结果；失败或取消时 reject
+	 */
+	public start() {
+		this.running ??= this._start();
+		return this.running;
+	}
+
+	/**
+	 * 暂停，中断进行中的分片请求，继续后重新上传这些分片
+	 */
+	public pause() {
+		if (this._status !== "hashing" && this._status !== "uploading") return;
+		this.pausedFrom = this._status;
+		this._status = "paused";
+		let resolve = () => {};
+		const promise = new Promise<void>((r) => {
+			resolve = r;
+		});
+		this.waiter = { promise, resolve };
+		this.controller.abort();
+		this.controller = new AbortController();
+	}
+
+	/**
+	 * 继续
+	 */
+	public resume() {
+		if (this._status !== "paused") return;
+		this._status = this.pausedFrom;
+		this.waiter?.resolve();
+		this.waiter = undefined;
+	}
+
+	/**
+	 * 取消上传，清除保存的进度并调用适配器的 abort
+	 */
+	public abort() {
+		if (this._status === "success" || this.aborted) return;
+		this.aborted = true;
+		this.stopped = true;
+		this.controller.abort();
+		this.waiter?.resolve();
+		this.waiter = undefined;
+		// 未开始时直接标记为已取消
+		if (!this.running) {
+			this._status = "aborted";
+			this._clear();
+		}
+	}
+
+	private async _start(): Promise<UploadResult> {
+		const { adapter, concurrency = 3 } = this.options;
+		const context = this.context;
+		try {
+			this._checkStopped();
+			if (this.options.hash !== false && !context.hash) {
+				this._status = "hashing";
+				context.hash = await this._hash();
+				this._save();
+			}
+			if (this._status !== "paused") this._status = "uploading";
+			else this.pausedFrom = "uploading";
+			const checked = await adapter.check?.(context);
+			this._checkStopped();
+			if (checked?.exists) {
+				this._succeed();
+				return {
+					key: context.key,
+					hash: context.hash,
+					uploadId: context.uploadId,
+					url: checked.url,
+					parts: [],
+					instant: true,
+				};
+			}
+			for (const index of checked?.uploaded ?? []) {
+				if (
+					index >= 0 &&
+					index < context.chunkCount &&
+					!this.parts.has(index)
+				) {
+					this.parts.set(index, { index, size: this._chunk(index).size });
+				}
+			}
+			if (!context.uploadId && adapter.init) {
+				context.uploadId = (await adapter.init(context)) ?? undefined;
+				this._checkStopped();
+				this._save();
+			}
+			this._emit();
+			const pending = Array.from(
+				{ length: context.chunkCount },
+				(_, index) => index,
+			).filter((index) => !this.parts.has(index));
+			let next = 0;
+			const worker = async () => {
+				while (next < pending.length) {
+					const index = pending[next++];
+					try {
+						this.parts.set(index, await this._uploadChunk(index));
+					} catch (error) {
+						// 停止其余分片
+						this.stopped = true;
+						this.controller.abort();
+						throw error;
+					}
+					this._save();
+					this._emit();
+				}
+			};
+			await Promise.all(
+				Array.from(
+					{ length: Math.max(1, Math.min(concurrency, pending.length)) },
+					worker,
+				),
+			);
+			const parts = [...this.parts.values()].sort((a, b) => a.index - b.index);
+			const url = (await adapter.complete?.(context, parts)) ?? undefined;
+			this._checkStopped();
+			this._succeed();
+			return {
+				key: context.key,
+				hash: context.hash,
+				uploadId: context.uploadId,
+				url,
+				parts,
+				instant: false,
+			};
+		} catch (error) {
+			if (this.aborted) {
+				this._status = "aborted";
+				this._clear();
+				await adapter.abort?.(context).catch(() => {});
+				throw abortError();
+			}
+			// 保留进度，重新上传时从已上传的分片继续
+			this._status = "error";
+			throw error;
+		}
+	}
+
+	/**
+	 * 增量计算文件 MD5
+	 */
+	private async _hash() {
+		const { file } = this.context;
+		const md5 = new MD5();
+		for (let offset = 0; offset < file.size; offset += HASH_SLICE_SIZE) {
+			await this._waitResume();
+			this._checkStopped();
+			const slice = file.slice(offset, offset + HASH_SLICE_SIZE);
+			md5.update(new Uint8Array(await slice.arrayBuffer()));
+			this.options.onHashProgress?.(
+				Math.min(100, ((offset + slice.size) / file.size) * 100),
+			);
+		}
+		if (file.size === 0) this.options.onHashProgress?.(100);
+		return md5.digest();
+	}
+
+	/**
+	 * 上传单个分片，失败时重试，暂停时等待继续后重新上传
+	 */
+	private async _uploadChunk(index: number): Promise<UploadPart> {
+		const { retry = 3, retryDelay = 1000 } = this.options;
+		const chunk = this._chunk(index);
+		let attempts = 0;
+		for (;;) {
+			await this._waitResume();
+			this._checkStopped();
+			const signal = this.controller.signal;
+			attempts++;
+			try {
+				const result = await this.options.adapter.uploadChunk(
+					chunk,
+					index,
+					this.context,
+					signal,
+				);
+				return { index, size: chunk.size, etag: result?.etag };
+			} catch (error: any) {
+				this._checkStopped();
+				// 因暂停而中断，不计入重试次数
+				if (signal.aborted) {
+					attempts--;
+					continue;
+				}
+				const status: number | undefined = error?.status;
+				const retryable =
+					status === undefined ||
+					status === 408 ||
+					status === 429 ||
+					status >= 500;
+				if (attempts > retry || !retryable) throw error;
+				await sleep(retryDelay * 2 ** (attempts - 1), signal);
+			}
+		}
+	}
+
+	private _chunk(index: number) {
+		const { file, chunkSize } = this.context;
+		return file.slice(index * chunkSize, (index + 1) * chunkSize);
+	}
+
+	private async _waitResume() {
+		while (this.waiter) await this.waiter.promise;
+	}
+
+	private _checkStopped() {
+		if (this.stopped) throw abortError();
+	}
+
+	private _succeed() {
+		this._status = "success";
+		this._clear();
+		this._emit();
+	}
+
+	private _emit() {
+		this.options.onProgress?.(this.progress);
+	}
+
+	private _read(): UploadRecord | undefined {
+		try {
+			const value = this.storage?.getItem(this.recordKey);
+			return value ? JSON.parse(value) : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	private _save() {
+		const { key, hash, uploadId, data } = this.context;
+		const record: UploadRecord = {
+			key,
+			hash,
+			uploadId,
+			parts: [...this.parts.values()],
+			data,
+		};
+		try {
+			this.storage?.setItem(this.recordKey, JSON.stringify(record));
+		} catch {
+			// 存储空间不足或隐私模式下无法保存，不影响上传
+		}
+	}
+
+	private _clear() {
+		try {
+			this.storage?.removeItem(this.recordKey);
+		} catch {}
+	}
+}
+
+function abortError() {
+	return Object.assign(new Error("[upload]：上传已取消"), {
+		name: "AbortError",
+	});
+}
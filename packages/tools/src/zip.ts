@@ -0,0 +1,501 @@
+/** 压缩方式：store 仅存储 / deflate 压缩 */
+export type ZipCompression = "store" | "deflate";
+
+/** 压缩包中的文件或目录 */
+export interface ZipEntry {
+	/** 文件路径，使用 / 分隔目录，如 images/1.png；以 / 结尾时为目录 */
+	name: string;
+	/** 文件内容，字符串按 UTF-8 编码，目录可不传 */
+	data?: Blob | string | ArrayBuffer | Uint8Array | ReadableStream<Uint8Array>;
+	/** 是否为目录 */
+	directory?: boolean;
+	/** 修改时间，默认当前时间 */
+	lastModified?: Date | number;
+	/** 压缩方式，默认使用 ZipOptions.compression（已压缩的图片、视频等可使用 store） */
+	compression?: ZipCompression;
+}
+
+export interface ZipOptions {
+	/** 压缩方式，默认 deflate（当前环境不支持 CompressionStream 时为 store） */
+	compression?: ZipCompression;
+	/** 压缩包注释 */
+	comment?: string;
+}
+
+/** 读取到的压缩包条目 */
+export interface ZipReaderEntry {
+	/** 文件路径 */
+	name: string;
+	/** 是否为目录 */
+	directory: boolean;
+	/** 原始大小 */
+	size: number;
+	/** 压缩后的大小 */
+	compressedSize: number;
+	/** 修改时间 */
+	lastModified: Date;
+	/** 是否加密（不支持解压加密的文件） */
+	encrypted: boolean;
+	/** 注释 */
+	comment: string;
+	/** 解压为 Blob */
+	blob(type?: string): Promise<Blob>;
+	/** 解压为 ArrayBuffer */
+	arrayBuffer(): Promise<ArrayBuffer>;
+	/** 解压为文本（UTF-8） */
+	text(): Promise<string>;
+}
+
+/** ZIP 格式不使用 ZIP64 时的大小上限 */
+const MAX_UINT32 = 0xffffffff;
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let i = 0; i < 256; i++) {
+		let c = i;
+		for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		table[i] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * 计算 CRC-32，可传入上次的结果分段计算
+ */
+export function crc32(bytes: Uint8Array, crc = 0) {
+	let c = crc ^ 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) {
+		c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+	}
+	return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 当前环境是否支持 deflate-raw 压缩 / 解压
+ */
+function isDeflateSupported(kind: "compress" | "decompress") {
+	try {
+		if (kind === "compress") new CompressionStream("deflate-raw");
+		else new DecompressionStream("deflate-raw");
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * 转换为流
+ */
+function toStream(data: ZipEntry["data"]): ReadableStream<Uint8Array> {
+	if (data instanceof ReadableStream) return data;
+	if (data instanceof Blob) {
+		return data.stream() as ReadableStream<Uint8Array>;
+	}
+	const bytes =
+		typeof data === "string"
+			? new TextEncoder().encode(data)
+			: data instanceof ArrayBuffer
+				? new Uint8Array(data)
+				: (data ?? new Uint8Array(0));
+	return new ReadableStream({
+		start(controller) {
+			if (bytes.length > 0) controller.enqueue(bytes);
+			controller.close();
+		},
+	});
+}
+
+/**
+ * 逐块读取流
+ */
+async function* readChunks(stream: ReadableStream<Uint8Array>) {
+	const reader = stream.getReader();
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) return;
+			yield value;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+/**
+ * 转换为 MS-DOS 日期时间
+ */
+function toDosTime(value: Date | number = Date.now()) {
+	const date = new Date(value);
+	const year = Math.max(1980, date.getFullYear());
+	return {
+		time:
+			(date.getHours() << 11) |
+			(date.getMinutes() << 5) |
+			Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+}
+
+/**
+ * MS-DOS 日期时间转换为 Date
+ */
+function fromDosTime(time: number, date: number) {
+	return new Date(
+		1980 + (date >> 9),
+		((date >> 5) & 15) - 1,
+		date & 31,
+		time >> 11,
+		(time >> 5) & 63,
+		(time & 31) * 2,
+	);
+}
+
+/** 已写入的条目，用于生成中央目录 */
+interface WrittenEntry {
+	name: Uint8Array;
+	flags: number;
+	method: number;
+	time: number;
+	date: number;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	offset: number;
+	directory: boolean;
+}
+
+/**
+ * 本地文件头
+ */
+function localHeader(entry: Omit<WrittenEntry, "offset" | "directory">) {
+	const view = new DataView(new ArrayBuffer(30 + entry.name.length));
+	view.setUint32(0, 0x04034b50, true);
+	view.setUint16(4, 20, true);
+	view.setUint16(6, entry.flags, true);
+	view.setUint16(8, entry.method, true);
+	view.setUint16(10, entry.time, true);
+	view.setUint16(12, entry.date, true);
+	view.setUint32(14, entry.crc, true);
+	view.setUint32(18, entry.compressedSize, true);
+	view.setUint32(22, entry.size, true);
+	view.setUint16(26, entry.name.length, true);
+	const bytes = new Uint8Array(view.buffer);
+	bytes.set(entry.name, 30);
+	return bytes;
+}
+
+/**
+ * 中央目录记录
+ */
+function centralRecord(entry: WrittenEntry) {
+	const view = new DataView(new ArrayBuffer(46 + entry.name.length));
+	view.setUint32(0, 0x02014b50, true);
+	view.setUint16(4, 20, true);
+	view.setUint16(6, 20, true);
+	view.setUint16(8, entry.flags, true);
+	view.setUint16(10, entry.method, true);
+	view.setUint16(12, entry.time, true);
+	view.setUint16(14, entry.date, true);
+	view.setUint32(16, entry.crc, true);
+	view.setUint32(20, entry.compressedSize, true);
+	view.setUint32(24, entry.size, true);
+	view.setUint16(28, entry.name.length, true);
+	// 外部属性：MS-DOS 目录标记
+	view.setUint32(38, entry.directory ? 0x10 : 0, true);
+	view.setUint32(42, entry.offset, true);
+	const bytes = new Uint8Array(view.buffer);
+	bytes.set(entry.name, 46);
+	return bytes;
+}
+
+/**
+ * 逐块生成压缩包
+ * @param streaming 是否流式写入：流式写入时文件头不包含大小及 CRC，写在文件数据后的数据描述符中，无需将文件内容读入内存
+ */
+async function* generateZip(
+	entries: ZipEntry[],
+	options: ZipOptions,
+	streaming: boolean,
+): AsyncGenerator<Uint8Array> {
+	const encoder = new TextEncoder();
+	const canDeflate = isDeflateSupported("compress");
+	const written: WrittenEntry[] = [];
+	let offset = 0;
+	for (const entry of entries) {
+		const directory = !!entry.directory || entry.name.endsWith("/");
+		let path = entry.name.replace(/\\/g, "/").replace(/^\/+/, "");
+		if (directory && !path.endsWith("/")) path += "/";
+		const compression = entry.compression ?? options.compression ?? "deflate";
+		const method =
+			!directory && compression === "deflate" && canDeflate ? 8 : 0;
+		const record: WrittenEntry = {
+			name: encoder.encode(path),
+			// bit 11：文件名使用 UTF-8 编码；bit 3：大小及 CRC 写在数据描述符中
+			flags: 0x0800 | (streaming && !directory ? 0x08 : 0),
+			method,
+			...toDosTime(entry.lastModified),
+			crc: 0,
+			compressedSize: 0,
+			size: 0,
+			offset,
+			directory,
+		};
+		if (directory) {
+			const header = localHeader(record);
+			yield header;
+			offset += header.length;
+			written.push(record);
+			continue;
+		}
+		// 计算原始内容的 CRC 及大小
+		let source = toStream(entry.data).pipeThrough(
+			new TransformStream<Uint8Array, Uint8Array>({
+				transform(chunk, controller) {
+					record.crc = crc32(chunk, record.crc);
+					record.size += chunk.length;
+					controller.enqueue(chunk);
+				},
+			}),
+		);
+		if (method === 8) {
+			source = source.pipeThrough(
+				new CompressionStream("deflate-raw") as unknown as TransformStream<
+					Uint8Array,
+					Uint8Array
+				>,
+			);
+		}
+		if (streaming) {
+			const header = localHeader(record);
+			yield header;
+			for await (const chunk of readChunks(source)) {
+				record.compressedSize += chunk.length;
+				yield chunk;
+			}
+			const descriptor = new DataView(new ArrayBuffer(16));
+			descriptor.setUint32(0, 0x08074b50, true);
+			descriptor.setUint32(4, record.crc, true);
+			descriptor.setUint32(8, record.compressedSize, true);
+			descriptor.setUint32(12, record.size, true);
+			yield new Uint8Array(descriptor.buffer);
+			offset += header.length + record.compressedSize + 16;
+		} else {
+			const chunks: Uint8Array[] = [];
+			for await (const chunk of readChunks(source)) {
+				record.compressedSize += chunk.length;
+				chunks.push(chunk);
+			}
+			const header = localHeader(record);
+			yield header;
+			yield* chunks;
+			offset += header.length + record.compressedSize;
+		}
+		if (record.size > MAX_UINT32 || offset > MAX_UINT32) {
+			throw new Error("[createZip]：压缩包超过 4GB，暂不支持 ZIP64");
+		}
+		written.push(record);
+	}
+	if (written.length > 0xffff) {
+		throw new Error("[createZip]：文件数量超过 65535，暂不支持 ZIP64");
+	}
+	let centralSize = 0;
+	for (const record of written) {
+		const bytes = centralRecord(record);
+		centralSize += bytes.length;
+		yield bytes;
+	}
+	// 中央目录结束记录
+	const comment = encoder.encode(options.comment ?? "").slice(0, 0xffff);
+	const end = new DataView(new ArrayBuffer(22 + comment.length));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, written.length, true);
+	end.setUint16(10, written.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+	end.setUint16(20, comment.length, true);
+	const endBytes = new Uint8Array(end.buffer);
+	endBytes.set(comment, 22);
+	yield endBytes;
+}
+
+/**
+ * 生成 ZIP 压缩包，文件名使用 UTF-8 编码
+ * @param entries 文件及目录列表
+ * @param options 配置项
+ * @returns application/zip 类型的 Blob
+ */
+export async function createZip(entries: ZipEntry[], options: ZipOptions = {}) {
+	const parts: BlobPart[] = [];
+	for await (const chunk of generateZip(entries, options, false)) {
+		parts.push(chunk as BlobPart);
+	}
+	return new Blob(parts, { type: "application/zip" });
+}
+
+/**
+ * 以流的方式生成 ZIP 压缩包，按需读取及压缩文件内容，适用于大文件
+ * 可配合 showSaveFilePicker 直接写入磁盘：stream.pipeTo(await handle.createWritable())
+ * @param entries 文件及目录列表
+ * @param options 配置项
+ * @returns
+ */
+export function createZipStream(entries: ZipEntry[], options: ZipOptions = {}) {
+	const iterator = generateZip(entries, options, true);
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const { done, value } = await iterator.next();
+			if (done) controller.close();
+			else controller.enqueue(value);
+		},
+		async cancel() {
+			await iterator.return(undefined);
+		},
+	});
+}
+
+/**
+ * 解码文件名：优先使用 Info-ZIP Unicode Path 扩展字段，未标记 UTF-8 且不是有效的 UTF-8 时按 GBK 解码（Windows 中文系统生成的压缩包）
+ */
+function decodeName(bytes: Uint8Array, flags: number, extra: Uint8Array) {
+	const utf8 = new TextDecoder();
+	const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+	for (let i = 0; i + 4 <= extra.length; ) {
+		const id = view.getUint16(i, true);
+		const length = view.getUint16(i + 2, true);
+		if (id === 0x7075 && length > 5) {
+			return utf8.decode(extra.subarray(i + 9, i + 4 + length));
+		}
+		i += 4 + length;
+	}
+	if (flags & 0x0800) return utf8.decode(bytes);
+	try {
+		return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+	} catch {
+		try {
+			return new TextDecoder("gbk").decode(bytes);
+		} catch {
+			return utf8.decode(bytes);
+		}
+	}
+}
+
+/**
+ * 读取 ZIP 压缩包的文件列表，文件内容在调用条目的 blob / arrayBuffer / text 时按需解压
+ * @param source 压缩包（如 input[type=file] 选择的 File）
+ * @returns 条目列表
+ */
+export async function readZip(
+	source: Blob | ArrayBuffer | Uint8Array,
+): Promise<ZipReaderEntry[]> {
+	const blob = source instanceof Blob ? source : new Blob([source as BlobPart]);
+	// 中央目录结束记录位于末尾，最长 22 字节 + 65535 字节注释
+	const tailSize = Math.min(blob.size, 22 + 0xffff);
+	const tail = new DataView(
+		await blob.slice(blob.size - tailSize).arrayBuffer(),
+	);
+	let end = -1;
+	for (let i = tailSize - 22; i >= 0; i--) {
+		if (tail.getUint32(i, true) === 0x06054b50) {
+			end = i;
+			break;
+		}
+	}
+	if (end < 0) throw new Error("[readZip]：不是有效的 zip 文件");
+	const count = tail.getUint16(end + 10, true);
+	const centralSize = tail.getUint32(end + 12, true);
+	const centralOffset = tail.getUint32(end + 16, true);
+	if (count === 0xffff || centralOffset === MAX_UINT32) {
+		throw new Error("[readZip]：暂不支持 ZIP64 格式");
+	}
+	const central = new Uint8Array(
+		await blob.slice(centralOffset, centralOffset + centralSize).arrayBuffer(),
+	);
+	const view = new DataView(central.buffer);
+	const entries: ZipReaderEntry[] = [];
+	let p = 0;
+	for (let i = 0; i < count; i++) {
+		if (view.getUint32(p, true) !== 0x02014b50) {
+			throw new Error("[readZip]：中央目录已损坏");
+		}
+		const flags = view.getUint16(p + 8, true);
+		const method = view.getUint16(p + 10, true);
+		const time = view.getUint16(p + 12, true);
+		const date = view.getUint16(p + 14, true);
+		const crc = view.getUint32(p + 16, true);
+		const compressedSize = view.getUint32(p + 20, true);
+		const size = view.getUint32(p + 24, true);
+		const nameLength = view.getUint16(p + 28, true);
+		const extraLength = view.getUint16(p + 30, true);
+		const commentLength = view.getUint16(p + 32, true);
+		const external = view.getUint32(p + 38, true);
+		const offset = view.getUint32(p + 42, true);
+		const nameStart = p + 46;
+		const extraStart = nameStart + nameLength;
+		const name = decodeName(
+			central.subarray(nameStart, extraStart),
+			flags,
+			central.subarray(extraStart, extraStart + extraLength),
+		);
+		const comment = new TextDecoder().decode(
+			central.subarray(
+				extraStart + extraLength,
+				extraStart + extraLength + commentLength,
+			),
+		);
+		p = extraStart + extraLength + commentLength;
+
+		const read = async () => {
+			if (flags & 0x01)
+				throw new Error(`[readZip]：不支持解压加密的文件 ${name}`);
+			const header = new DataView(
+				await blob.slice(offset, offset + 30).arrayBuffer(),
+			);
+			if (header.getUint32(0, true) !== 0x04034b50) {
+				throw new Error(`[readZip]：文件头已损坏 ${name}`);
+			}
+			// 本地文件头中的扩展字段长度可能与中央目录不同
+			const start =
+				offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+			const raw = blob.slice(start, start + compressedSize);
+			let bytes: Uint8Array;
+			if (method === 0) {
+				bytes = new Uint8Array(await raw.arrayBuffer());
+			} else if (method === 8) {
+				if (!isDeflateSupported("decompress")) {
+					throw new Error("[readZip]：当前环境不支持 DecompressionStream");
+				}
+				const stream = raw
+					.stream()
+					.pipeThrough(new DecompressionStream("deflate-raw"));
+				bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+			} else {
+				throw new Error(`[readZip]：不支持的压缩方式 ${method}（${name}）`);
+			}
+			if (crc32(bytes) !== crc) {
+				throw new Error(`[readZip]：文件校验失败 ${name}`);
+			}
+			return bytes;
+		};
+
+		entries.push({
+			name,
+			directory: name.endsWith("/") || (external & 0x10) !== 0,
+			size,
+			compressedSize,
+			lastModified: fromDosTime(time, date),
+			encrypted: (flags & 0x01) !== 0,
+			comment,
+			blob: async (type = "") =>
+				new Blob([(await read()) as BlobPart], { type }),
+			arrayBuffer: async () => {
+				const bytes = await read();
+				return bytes.buffer.slice(
+					bytes.byteOffset,
+					bytes.byteOffset + bytes.byteLength,
+				) as ArrayBuffer;
+			},
+			text: async () => new TextDecoder().decode(await read()),
+		});
+	}
+	return entries;
+}
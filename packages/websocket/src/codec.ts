@@ -0,0 +1,380 @@
+/** 发送给 WebSocket 的数据类型 */
+export type KWebSocketFrame = string | ArrayBufferLike | ArrayBufferView | Blob;
+
+/**
+ * 消息编解码器
+ * - encode：发送前将消息编码为 WebSocket 帧
+ * - decode：接收后将 WebSocket 帧解码为消息，抛出的异常会交由 onError 处理
+ */
+export interface KWebSocketCodec {
+	/** 编解码器名称 */
+	name: string;
+	/** 解码器期望接收的二进制类型，未设置 binaryType 选项时作为 socket.binaryType */
+	binaryType?: BinaryType;
+	/** 编码 */
+	encode: (data: unknown) => KWebSocketFrame;
+	/** 解码 */
+	decode: (data: string | ArrayBuffer) => unknown;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * JSON 编解码器
+ * 字符串消息原样发送，其余消息 JSON 序列化；接收到的文本或二进制帧按 JSON 解析
+ */
+export const JSONCodec: KWebSocketCodec = {
+	name: "json",
+	binaryType: "arraybuffer",
+	encode: (data) => (typeof data === "string" ? data : JSON.stringify(data)),
+	decode: (data) =>
+		JSON.parse(typeof data === "string" ? data : textDecoder.decode(data)),
+};
+
+/**
+ * 二进制编解码器
+ * 采用 MessagePack 格式，服务端可直接使用 msgpack 相关库解码
+ * 支持 null/undefined、布尔、数字、字符串、二进制（Uint8Array/ArrayBuffer）、数组、对象及 Date
+ */
+export const BinaryCodec: KWebSocketCodec = {
+	name: "msgpack",
+	binaryType: "arraybuffer",
+	encode: (data) => {
+		const writer = new BinaryWriter();
+		writer.write(data);
+		return writer.toUint8Array();
+	},
+	decode: (data) => {
+		const bytes =
+			typeof data === "string"
+				? textEncoder.encode(data)
+				: new Uint8Array(data);
+		const reader = new BinaryReader(bytes);
+		const value = reader.read();
+		if (reader.offset !== bytes.length) {
+			throw new Error(
+				`BinaryCodec：解码失败，存在 ${bytes.length - reader.offset} 字节多余数据`,
+			);
+		}
+		return value;
+	},
+};
+
+/**
+ * MessagePack 编码
+ */
+class BinaryWriter {
+	private buffer = new Uint8Array(256);
+	private view = new DataView(this.buffer.buffer);
+	private length = 0;
+
+	public toUint8Array() {
+		return this.buffer.slice(0, this.length);
+	}
+
+	public write(value: unknown) {
+		if (value === null || value === undefined) {
+			this.uint8(0xc0);
+		} else if (typeof value === "boolean") {
+			this.uint8(value ? 0xc3 : 0xc2);
+		} else if (typeof value === "number") {
+			this.number(value);
+		} else if (typeof value === "bigint") {
+			if (value < -(2n ** 63n) || value >= 2n ** 64n) {
+				throw new RangeError(
+					`BinaryCodec：bigint 超出 int64 / uint64 范围 ${value}`,
+				);
+			}
+			this.uint8(value < 0 ? 0xd3 : 0xcf);
+			this.ensure(8);
+			if (value < 0) this.view.setBigInt64(this.length, value);
+			else this.view.setBigUint64(this.length, value);
+			this.length += 8;
+		} else if (typeof value === "string") {
+			this.string(value);
+		} else if (value instanceof Date) {
+			this.date(value);
+		} else if (value instanceof ArrayBuffer) {
+			this.binary(new Uint8Array(value));
+		} else if (ArrayBuffer.isView(value)) {
+			this.binary(
+				new Uint8Array(value.buffer, value.byteOffset, value.byteLength),
+			);
+		} else if (Array.isArray(value)) {
+			this.header(value.length, 0x90, 0xdc, 15);
+			for (const item of value) this.write(item);
+		} else if (typeof value === "object") {
+			const entries = Object.entries(value).filter(
+				([, item]) => item !== undefined,
+			);
+			this.header(entries.length, 0x80, 0xde, 15);
+			for (const [key, item] of entries) {
+				this.string(key);
+				this.write(item);
+			}
+		} else {
+			throw new Error(`BinaryCodec：不支持编码 ${typeof value} 类型的数据`);
+		}
+	}
+
+	private number(value: number) {
+		if (!Number.isInteger(value) || !Number.isSafeInteger(value)) {
+			this.uint8(0xcb);
+			this.ensure(8);
+			this.view.setFloat64(this.length, value);
+			this.length += 8;
+		} else if (value >= 0) {
+			if (value < 0x80) this.uint8(value);
+			else if (value < 0x100) this.uint8(0xcc).uint8(value);
+			else if (value < 0x10000) this.uint8(0xcd).uint16(value);
+			else if (value < 0x100000000) this.uint8(0xce).uint32(value);
+			else this.write(BigInt(value));
+		} else {
+			if (value >= -0x20) this.uint8(value & 0xff);
+			else if (value >= -0x80) this.uint8(0xd0).uint8(value & 0xff);
+			else if (value >= -0x8000) this.uint8(0xd1).uint16(value & 0xffff);
+			else if (value >= -0x80000000) this.uint8(0xd2).uint32(value >>> 0);
+			else this.write(BigInt(value));
+		}
+	}
+
+	private string(value: string) {
+		const bytes = textEncoder.encode(value);
+		if (bytes.length < 32) this.uint8(0xa0 | bytes.length);
+		else if (bytes.length < 0x100) this.uint8(0xd9).uint8(bytes.length);
+		else if (bytes.length < 0x10000) this.uint8(0xda).uint16(bytes.length);
+		else this.uint8(0xdb).uint32(bytes.length);
+		this.bytes(bytes);
+	}
+
+	private binary(bytes: Uint8Array) {
+		if (bytes.length < 0x100) this.uint8(0xc4).uint8(bytes.length);
+		else if (bytes.length < 0x10000) this.uint8(0xc5).uint16(bytes.length);
+		else this.uint8(0xc6).uint32(bytes.length);
+		this.bytes(bytes);
+	}
+
+	/** 使用 MessagePack 时间戳扩展类型（-1）编码日期 */
+	private date(value: Date) {
+		const ms = value.getTime();
+		const seconds = Math.floor(ms / 1000);
+		const nanoseconds = (ms - seconds * 1000) * 1e6;
+		if (nanoseconds === 0 && seconds >= 0 && seconds < 0x100000000) {
+			this.uint8(0xd6).uint8(0xff).uint32(seconds);
+		} else {
+			// timestamp 96：4 字节纳秒 + 8 字节有符号秒
+			this.uint8(0xc7).uint8(12).uint8(0xff).uint32(nanoseconds);
+			this.ensure(8);
+			this.view.setBigInt64(this.length, BigInt(seconds));
+			this.length += 8;
+		}
+	}
+
+	/** 写入数组/对象头 */
+	private header(size: number, fix: number, code16: number, fixMax: number) {
+		if (size <= fixMax) this.uint8(fix | size);
+		else if (size < 0x10000) this.uint8(code16).uint16(size);
+		else this.uint8(code16 + 1).uint32(size);
+	}
+
+	private uint8(value: number) {
+		this.ensure(1);
+		this.view.setUint8(this.length, value);
+		this.length += 1;
+		return this;
+	}
+
+	private uint16(value: number) {
+		this.ensure(2);
+		this.view.setUint16(this.length, value);
+		this.length += 2;
+		return this;
+	}
+
+	private uint32(value: number) {
+		this.ensure(4);
+		this.view.setUint32(this.length, value);
+		this.length += 4;
+		return this;
+	}
+
+	private bytes(bytes: Uint8Array) {
+		this.ensure(bytes.length);
+		this.buffer.set(bytes, this.length);
+		this.length += bytes.length;
+	}
+
+	/** 确保缓冲区剩余空间足够，不足时按倍数扩容 */
+	private ensure(size: number) {
+		if (this.length + size <= this.buffer.length) return;
+		let capacity = this.buffer.length * 2;
+		while (capacity < this.length + size) capacity *= 2;
+		const buffer = new Uint8Array(capacity);
+		buffer.set(this.buffer.subarray(0, this.length));
+		this.buffer = buffer;
+		this.view = new DataView(buffer.buffer);
+	}
+}
+
+/**
+ * MessagePack 解码
+ */
+class BinaryReader {
+	public offset = 0;
+	private view: DataView;
+
+	constructor(private bytes: Uint8Array) {
+		this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	}
+
+	public read(): unknown {
+		const code = this.uint8();
+		if (code < 0x80) return code;
+		if (code < 0x90) return this.map(code & 0x0f);
+		if (code < 0xa0) return this.array(code & 0x0f);
+		if (code < 0xc0) return this.string(code & 0x1f);
+		if (code >= 0xe0) return code - 0x100;
+		switch (code) {
+			case 0xc0:
+				return null;
+			case 0xc2:
+				return false;
+			case 0xc3:
+				return true;
+			case 0xc4:
+				return this.take(this.uint8()).slice();
+			case 0xc5:
+				return this.take(this.uint16()).slice();
+			case 0xc6:
+				return this.take(this.uint32()).slice();
+			case 0xc7:
+				return this.ext(this.uint8());
+			case 0xc8:
+				return this.ext(this.uint16());
+			case 0xc9:
+				return this.ext(this.uint32());
+			case 0xca:
+				return this.step(4, (at) => this.view.getFloat32(at));
+			case 0xcb:
+				return this.step(8, (at) => this.view.getFloat64(at));
+			case 0xcc:
+				return this.uint8();
+			case 0xcd:
+				return this.uint16();
+			case 0xce:
+				return this.uint32();
+			case 0xcf:
+				return this.integer(this.step(8, (at) => this.view.getBigUint64(at)));
+			case 0xd0:
+				return this.step(1, (at) => this.view.getInt8(at));
+			case 0xd1:
+				return this.step(2, (at) => this.view.getInt16(at));
+			case 0xd2:
+				return this.step(4, (at) => this.view.getInt32(at));
+			case 0xd3:
+				return this.integer(this.step(8, (at) => this.view.getBigInt64(at)));
+			case 0xd4:
+				return this.ext(1);
+			case 0xd5:
+				return this.ext(2);
+			case 0xd6:
+				return this.ext(4);
+			case 0xd7:
+				return this.ext(8);
+			case 0xd8:
+				return this.ext(16);
+			case 0xd9:
+				return this.string(this.uint8());
+			case 0xda:
+				return this.string(this.uint16());
+			case 0xdb:
+				return this.string(this.uint32());
+			case 0xdc:
+				return this.array(this.uint16());
+			case 0xdd:
+				return this.array(this.uint32());
+			case 0xde:
+				return this.map(this.uint16());
+			case 0xdf:
+				return this.map(this.uint32());
+			default:
+				throw new Error(
+					`BinaryCodec：解码失败，未知类型标识 0x${code.toString(16)}`,
+				);
+		}
+	}
+
+	private array(size: number) {
+		const result: unknown[] = [];
+		for (let i = 0; i < size; i++) result.push(this.read());
+		return result;
+	}
+
+	private map(size: number) {
+		const result: Record<string, unknown> = {};
+		for (let i = 0; i < size; i++) {
+			const key = this.read();
+			result[String(key)] = this.read();
+		}
+		return result;
+	}
+
+	private string(size: number) {
+		return textDecoder.decode(this.take(size));
+	}
+
+	/** 扩展类型，仅支持时间戳（-1），其余返回 { type, data } */
+	private ext(size: number) {
+		const type = this.step(1, (at) => this.view.getInt8(at));
+		if (type !== -1) return { type, data: this.take(size).slice() };
+		if (size === 4) return new Date(this.uint32() * 1000);
+		if (size === 8) {
+			const high = this.uint32();
+			const low = this.uint32();
+			const nanoseconds = high >>> 2;
+			const seconds = (high & 0x3) * 0x100000000 + low;
+			return new Date(seconds * 1000 + nanoseconds / 1e6);
+		}
+		if (size === 12) {
+			const nanoseconds = this.uint32();
+			const seconds = this.step(8, (at) => this.view.getBigInt64(at));
+			return new Date(Number(seconds) * 1000 + nanoseconds / 1e6);
+		}
+		throw new Error(`BinaryCodec：解码失败，时间戳长度 ${size} 无效`);
+	}
+
+	/** 超出安全整数范围时返回 bigint */
+	private integer(value: bigint) {
+		return value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+			value <= BigInt(Number.MAX_SAFE_INTEGER)
+			? Number(value)
+			: value;
+	}
+
+	private uint8() {
+		return this.step(1, (at) => this.view.getUint8(at));
+	}
+
+	private uint16() {
+		return this.step(2, (at) => this.view.getUint16(at));
+	}
+
+	private uint32() {
+		return this.step(4, (at) => this.view.getUint32(at));
+	}
+
+	private take(size: number) {
+		return this.step(size, (at) => this.bytes.subarray(at, at + size));
+	}
+
+	/** 读取 size 字节并前移偏移量 */
+	private step<T>(size: number, read: (at: number) => T): T {
+		if (this.offset + size > this.bytes.length) {
+			throw new Error("BinaryCodec：解码失败，数据长度不足");
+		}
+		const value = read(this.offset);
+		this.offset += size;
+		return value;
+	}
+}
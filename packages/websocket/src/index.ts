@@ -1,12 +1,331 @@
+import {
+	BinaryCodec,
+	JSONCodec,
+	type KWebSocketCodec,
+	type KWebSocketFrame,
+} from "./codec";
+import { MockWebSocket, MockWebSocketServer } from "./mock";
+import {
+	decodeBase64,
+	type KWebSocketRecord,
+	type KWebSocketRecorderOptions,
+	type KWebSocketRecording,
+	type KWebSocketRecordType,
+	TrafficRecorder,
+} from "./recorder";
+import {
+	createEvent,
+	createWxRuntime,
+	getGlobalLifecycle,
+	getGlobalNetwork,
+	globalTimers,
+	type KWebSocketLifecycle,
+	type KWebSocketLike,
+	type KWebSocketNetwork,
+	type KWebSocketRuntime,
+	type KWebSocketTimerId,
+	type KWebSocketTimers,
+} from "./runtime";
+import {
+	type KWebSocketSharedOptions,
+	type SharedPacket,
+	TAB_ID_PREFIX,
+	TabCoordinator,
+} from "./shared";
+import {
+	createHttpSocket,
+	isHttpTransportSupported,
+	type KWebSocketTransport,
+	type KWebSocketTransportType,
+} from "./transports";
+
+export type { KWebSocketCodec, KWebSocketFrame } from "./codec";
+export type {
+	MockServerOptions,
+	MockWebSocket,
+	MockWebSocketServer,
+} from "./mock";
+export type {
+	KWebSocketRecord,
+	KWebSocketRecorderOptions,
+	KWebSocketRecording,
+	KWebSocketRecordType,
+	TrafficRecorder,
+} from "./recorder";
+export type {
+	KWebSocketData,
+	KWebSocketLifecycle,
+	KWebSocketLike,
+	KWebSocketNetwork,
+	KWebSocketRuntime,
+	KWebSocketTimerId,
+	KWebSocketTimers,
+	WxLike,
+	WxRuntimeOptions,
+	WxSocketTask,
+} from "./runtime";
+export type { KWebSocketSharedOptions } from "./shared";
+export type {
+	KWebSocketPollingTransport,
+	KWebSocketSseTransport,
+	KWebSocketTransport,
+	KWebSocketTransportType,
+} from "./transports";
+
+/** WebSocket 构造函数 */
+export type KWebSocketConstructor = new (
+	url: string | URL,
+	protocols?: string | string[],
+) => KWebSocketLike;
+
+/** WebSocket readyState，避免依赖全局 WebSocket 常量 */
+const READY_STATE = {
+	CONNECTING: 0,
+	OPEN: 1,
+	CLOSING: 2,
+	CLOSED: 3,
+} as const;
+
+export interface KWebSocketRpcOptions {
+	/** 请求标识字段名，默认 "id" */
+	idKey?: string;
+	/** 响应标识字段名，默认与 idKey 相同 */
+	responseIdKey?: string;
+	/** 请求方法字段名，默认 "method" */
+	methodKey?: string;
+	/** 请求参数字段名，默认 "params" */
+	paramsKey?: string;
+	/** 响应结果字段名，默认 "result" */
+	resultKey?: string;
+	/** 响应错误字段名，默认 "error" */
+	errorKey?: string;
+	/** 请求超时时间，单位毫秒，默认 10_000 */
+	timeout?: number;
+}
+
+export interface KWebSocketRequestOptions {
+	/** 本次请求超时时间，单位毫秒，默认取 rpc.timeout */
+	timeout?: number;
+	/** 请求帧优先级，默认 normal */
+	priority?: KWebSocketPriority;
+}
+
+export interface KWebSocketSubscriptionOptions {
+	/** 从消息中提取主题，默认读取 message.topic（消息为 JSON 字符串时传入解析后的对象） */
+	getTopic?: (message: any) => string | undefined;
+	/** 生成订阅帧，默认 { type: "subscribe", topic } */
+	subscribeFrame?: (topic: string) => unknown;
+	/** 生成取消订阅帧，默认 { type: "unsubscribe", topic } */
+	unsubscribeFrame?: (topic: string) => unknown;
+}
+
+/**
+ * 离线消息被丢弃的原因：overflow 队列溢出，expired 过期，destroyed 实例销毁，
+ * closed 连接断开时仍在限流队列中（未启用离线队列）
+ */
+export type KWebSocketDiscardReason =
+	| "overflow"
+	| "expired"
+	| "destroyed"
+	| "closed";
+
+export interface KWebSocketQueueOptions {
+	/** 队列最大长度，默认 100 */
+	maxLength?: number;
+	/** 消息有效期，单位毫秒，默认 0（不过期） */
+	ttl?: number;
+	/** 队列已满时的处理策略：drop-oldest 丢弃最早的消息（默认），drop-newest 丢弃新消息 */
+	overflow?: "drop-oldest" | "drop-newest";
+	/** 消息被丢弃回调 */
+	onDiscard?: (messages: unknown[], reason: KWebSocketDiscardReason) => void;
+}
+
+/**
+ * 消息优先级
+ * - high：不受限流限制，立即发送（如控制帧）
+ * - normal：默认
+ * - low：限流时排在 normal 之后（如批量数据）
+ */
+export type KWebSocketPriority = "high" | "normal" | "low";
+
+export interface KWebSocketSendOptions {
+	/** 本条消息在离线队列中的有效期，单位毫秒，默认取 offlineQueue.ttl */
+	ttl?: number;
+	/** 消息优先级，默认 normal */
+	priority?: KWebSocketPriority;
+	/** 合并键，等待发送（限流或离线队列中）的同键消息会被本条消息替换，如输入状态、光标位置 */
+	coalesceKey?: string;
+}
+
+export interface KWebSocketRateLimitOptions {
+	/** 每秒允许发送的消息数 */
+	rate: number;
+	/** 令牌桶容量，即允许突发发送的消息数，默认与 rate 相同 */
+	burst?: number;
+}
+
+export interface KWebSocketReplayOptions {
+	/** 回放速度倍数，如 2 表示按原时间间隔的一半回放，默认 0（不等待，立即依次回放） */
+	speed?: number;
+}
+
+/** 消息序号 / 偏移量 */
+export type KWebSocketOffset = number | string;
+
+export interface KWebSocketResumeOptions {
+	/** 从消息中读取序号 / 偏移量，默认读取 message.seq */
+	getOffset?: (message: any) => KWebSocketOffset | undefined;
+	/** 从消息中读取消息 id 用于去重，默认与 getOffset 相同 */
+	getId?: (message: any) => KWebSocketOffset | undefined;
+	/** 重连握手方式：query 追加到 url 查询参数（默认），frame 连接打开后首先发送恢复帧 */
+	handshake?: "query" | "frame";
+	/** 查询参数名，仅 query 有效，默认 "lastSeq" */
+	queryKey?: string;
+	/** 生成恢复帧，仅 frame 有效，默认 { type: "resume", seq: offset } */
+	resumeFrame?: (offset: KWebSocketOffset) => unknown;
+	/** 去重窗口，即记录最近收到的消息 id 数量，默认 1000 */
+	dedupWindow?: number;
+	/** 初始偏移量（如页面刷新后从本地存储恢复），默认无 */
+	initialOffset?: KWebSocketOffset;
+}
+
+export interface KWebSocketBackoffOptions {
+	/** 退避类型：fixed 固定间隔，linear 线性递增，exponential 指数递增 */
+	type: "fixed" | "linear" | "exponential";
+	/** 初始延迟，单位毫秒，默认取 reconnectInterval */
+	initialDelay?: number;
+	/** 指数因子，仅 exponential 有效，默认 2 */
+	factor?: number;
+	/** 最大延迟，单位毫秒，默认 60_000（且不小于初始延迟） */
+	maxDelay?: number;
+	/** 随机抖动：none 不抖动（默认），full 在 [0, delay] 内随机，equal 在 [delay/2, delay] 内随机 */
+	jitter?: "none" | "full" | "equal";
+}
+
+/**
+ * 重连策略
+ * - 字符串：使用对应退避类型及默认参数
+ * - 函数：根据重连次数（从 1 开始）返回延迟毫秒数
+ * - 对象：自定义退避参数
+ */
+export type KWebSocketReconnectStrategy =
+	| KWebSocketBackoffOptions["type"]
+	| ((attempt: number) => number)
+	| KWebSocketBackoffOptions;
+
+export interface KWebSocketReconnectInfo {
+	/** 第几次重连 */
+	attempt: number;
+	/** 距离下次重连的延迟，单位毫秒 */
+	delay: number;
+	/** 是否为强制重连（不计入 maxReconnectTimes） */
+	force: boolean;
+}
+
+export interface KWebSocketVisibilityOptions {
+	/** 页面隐藏时暂停发送心跳，默认 false（仅暂停心跳超时检测） */
+	pauseHeartbeat?: boolean;
+	/** 页面恢复可见时探测连接是否存活的超时时间，单位毫秒，默认 3000 */
+	probeTimeout?: number;
+}
+
+/**
+ * 关闭码对应的处理方式
+ * - refresh：调用 getUrl 刷新凭证后立即重连
+ * - reconnect：立即重连
+ * - close：不再重连
+ */
+export type KWebSocketCloseBehavior = "refresh" | "reconnect" | "close";
+
+export interface KWebSocketUrlContext {
+	/** 配置的连接地址（reinitialize 后为新地址） */
+	url: string;
+	/** 是否因关闭码（refresh）需要刷新凭证 */
+	refresh: boolean;
+	/** 当前重连次数，首次连接为 0 */
+	attempt: number;
+}
+
+/**
+ * 连接状态
+ * - idle：未连接
+ * - connecting：连接中
+ * - open：已连接
+ * - reconnecting：等待重连
+ * - offline：网络离线
+ * - closed：已关闭（主动断开或达到最大重连次数）
+ * - destroyed：已销毁
+ */
+export type KWebSocketState =
+	| "idle"
+	| "connecting"
+	| "open"
+	| "reconnecting"
+	| "offline"
+	| "closed"
+	| "destroyed";
+
+/** 心跳往返时延统计，单位毫秒 */
+export interface KWebSocketLatency {
+	/** 最近一次往返时延 */
+	last: number;
+	/** 平均往返时延 */
+	avg: number;
+	/** 95 分位往返时延 */
+	p95: number;
+	/** 统计样本数 */
+	samples: number;
+}
+
+/** 事件及监听函数类型 */
+export interface KWebSocketEventMap {
+	/** 连接打开 */
+	open: () => void;
+	/** 接收到服务器消息 */
+	message: (message: any) => void;
+	/** 连接关闭 */
+	close: (event: CloseEvent) => void;
+	/** 连接错误 */
+	error: (event: Event | Error) => void;
+	/** 即将重连 */
+	reconnecting: (info: KWebSocketReconnectInfo) => void;
+	/** 心跳超时，elapsed 为距离上次收到消息的毫秒数 */
+	heartbeatTimeout: (info: { elapsed: number }) => void;
+	/** 收到 pong（ping-pong 心跳模式），rtt 为本次往返时延 */
+	latency: (rtt: number, stats: KWebSocketLatency) => void;
+	/** 连接状态变化 */
+	stateChange: (state: KWebSocketState, prevState: KWebSocketState) => void;
+	/** 传输方式变化（回退或 reinitialize 后恢复首选传输方式） */
+	transportChange: (
+		transport: KWebSocketTransportType,
+		prevTransport: KWebSocketTransportType,
+	) => void;
+}
+
+/** 主题消息处理函数 */
+export type KWebSocketTopicHandler = (message: any, topic: string) => void;
+
 export interface KWebSocketOptions {
 	/** 是否启用调试模式，默认 false（主要涉及一些打印日志） */
 	debug?: boolean;
 	/** WebSocket 连接地址，格式 ws[s]://SERVER_HOST[/path][?query] */
 	url: string;
+	/**
+	 * 获取连接地址，每次建立连接（含重连）前调用，可用于获取 / 刷新 url 中携带的凭证，
+	 * 返回的地址优先于 url，抛出异常时按连接失败处理
+	 */
+	getUrl?: (context: KWebSocketUrlContext) => string | Promise<string>;
+	/**
+	 * 关闭码处理方式，如 { 4001: "refresh", 4003: "close" }，
+	 * 匹配的关闭码不计入 maxReconnectTimes（连续两次未能打开连接时按普通断开处理）
+	 */
+	closeCodes?: Record<number, KWebSocketCloseBehavior>;
 	/** 最大重连次数，默认 5 */
 	maxReconnectTimes?: number;
 	/** 重连间隔，单位毫秒，默认 10_000 */
 	reconnectInterval?: number;
+	/** 重连策略，默认 "fixed"（固定间隔 reconnectInterval） */
+	reconnectStrategy?: KWebSocketReconnectStrategy;
 	/** 心跳间隔，单位毫秒，默认 10_000 */
 	heartInterval?: number;
 	/** 心跳字符串，默认 "heartbeat" */
@@ -14,38 +333,163 @@ export interface KWebSocketOptions {
 	/** 心跳超时时间，默认 20_000 */
 	heartTimeout?: number;
 	/** 连接成功回调 */
-	onConnected: () => void;
-	/** 接收到服务器消息回调 */
-	onMessage: (message: string) => void;
+	onConnected?: () => void;
+	/** 接收到服务器消息回调，配置 codec 时为解码后的消息 */
+	onMessage?: (message: any) => void;
 	/** 连接关闭回调 */
 	onClose?: (event?: CloseEvent) => void;
 	/** 连接错误回调 */
-	onError?: (event?: Event) => void;
-	/** 自定义心跳 */
-	customHeartbeat?: () => string;
+	onError?: (event?: Event | Error) => void;
+	/** 即将重连回调，可获取下次重连的延迟 */
+	onReconnecting?: (info: KWebSocketReconnectInfo) => void;
+	/** 自定义心跳，每次发送心跳前调用，seq 为心跳序号（ping-pong 模式下默认 { type: "ping", seq }） */
+	customHeartbeat?: (seq: number) => unknown;
+	/**
+	 * 心跳模式
+	 * - legacy：收到任意消息即视为连接存活（默认）
+	 * - ping-pong：每个心跳携带序号，仅收到匹配的 pong 时视为存活，并统计往返时延
+	 */
+	heartbeatMode?: "legacy" | "ping-pong";
+	/** 判断消息是否为 pong（ping-pong 模式），默认 message.type === "pong" */
+	isPong?: (message: any) => boolean;
+	/** 从 pong 中读取心跳序号（ping-pong 模式），默认读取 message.seq */
+	getPongSeq?: (message: any) => number | undefined;
 	/** 实例唯一标识，默认 __DEFAULT__ */
 	uniqueKey?: string;
 	/** 是否启用自动恢复，默认 true */
 	autoRecover?: boolean;
+	/**
+	 * 页面可见性感知，默认不启用，传 true 或配置项启用
+	 * 页面隐藏或冻结时暂停心跳超时检测（后台定时器被节流，避免误判超时），
+	 * 恢复可见时先发送心跳探测连接是否存活，超时未响应再重连
+	 */
+	visibility?: boolean | KWebSocketVisibilityOptions;
 	/** 是否自动连接，默认 true */
 	autoConnect?: boolean;
+	/** 请求/响应字段配置，用于 request 方法匹配服务端响应 */
+	rpc?: KWebSocketRpcOptions;
+	/** 主题订阅配置，用于 subscribe 方法 */
+	subscription?: KWebSocketSubscriptionOptions;
+	/** 离线消息队列，启用后连接未打开时发送的消息会被缓存，连接打开后按顺序发送，默认不启用 */
+	offlineQueue?: boolean | KWebSocketQueueOptions;
+	/**
+	 * 断线续传，默认不启用
+	 * 启用后记录最近收到的消息序号，重连时通过 url 查询参数或首帧告知服务端补发，并按消息 id 过滤重复消息
+	 */
+	resume?: boolean | KWebSocketResumeOptions;
+	/**
+	 * 发送限流（令牌桶），默认不限流
+	 * 超出限制的消息按优先级排队发送，心跳、订阅帧等控制帧不受限制
+	 */
+	rateLimit?: KWebSocketRateLimitOptions;
+	/** 消息编解码器，可使用内置的 KWebSocket.JSONCodec、KWebSocket.BinaryCodec 或自定义，默认不编解码 */
+	codec?: KWebSocketCodec;
+	/** 二进制数据类型，默认取 codec.binaryType，均未设置时使用浏览器默认值 blob */
+	binaryType?: BinaryType;
+	/**
+	 * 跨标签页共享连接，默认不启用
+	 * 启用后同源标签页中 uniqueKey 相同的实例通过选举产生 leader，仅 leader 持有真实连接，
+	 * 其余标签页经 BroadcastChannel 收发消息，leader 标签页关闭后自动由其他标签页接替
+	 */
+	shared?: boolean | KWebSocketSharedOptions;
+	/**
+	 * 流量记录，默认不启用
+	 * 启用后以环形缓冲区记录收发帧、心跳、状态变化及重连，可通过 recorder 属性导出为 JSON / HAR
+	 */
+	recorder?: boolean | KWebSocketRecorderOptions;
+	/**
+	 * 传输方式列表，按顺序尝试，默认 ["websocket"]
+	 * 当前传输方式连续 fallbackAfter 次未能打开连接（如代理拦截 WebSocket 升级）时回退到下一个，
+	 * sse / long-polling 通过 HTTP 收发消息，send、onMessage、心跳、重连等用法不变
+	 */
+	transports?: KWebSocketTransport[];
+	/** 连续未能打开连接多少次后回退到下一个传输方式，默认 2 */
+	fallbackAfter?: number;
+	/** WebSocket 构造函数，默认使用全局 WebSocket，测试时可传入 KWebSocket.MockWebSocketServer 实例的 WebSocket */
+	WebSocket?: KWebSocketConstructor;
+	/**
+	 * 运行时适配（连接工厂、网络状态来源、定时器来源），默认适配浏览器、Web Worker 及 Node 22+，
+	 * 微信小程序可使用 KWebSocket.createWxRuntime(wx)
+	 */
+	runtime?: KWebSocketRuntime;
+}
+
+/** 等待响应的请求 */
+interface PendingRequest {
+	method: string;
+	resolve: (value: any) => void;
+	reject: (reason: Error) => void;
+	timer: KWebSocketTimerId;
+	/** 请求帧是否已发出（仍在离线队列中时为 false） */
+	sent: boolean;
+}
+
+/** 离线队列中的消息 */
+interface QueuedMessage {
+	data: unknown;
+	payload: KWebSocketFrame;
+	/** 过期时间戳，0 表示不过期 */
+	expiresAt: number;
+	/** 关联的请求 id（统一为字符串） */
+	requestId?: string;
+	/** 优先级 */
+	priority: KWebSocketPriority;
+	/** 合并键 */
+	coalesceKey?: string;
 }
 
+/** 优先级排序，数值越小越先发送 */
+const PRIORITY_RANK: Record<KWebSocketPriority, number> = {
+	high: 0,
+	normal: 1,
+	low: 2,
+};
+
 export default class KWebSocket {
 	/** 配置项 */
 	private options: KWebSocketOptions;
 	/** WebSocket */
-	private socket: WebSocket | null = null;
+	private socket: KWebSocketLike | null = null;
+	/** 已主动关闭的 socket，其 close 事件不再触发重连 */
+	private closedSockets: WeakSet<KWebSocketLike> = new WeakSet();
+	/** 网络状态来源，不支持或未启用时为 null */
+	private network: KWebSocketNetwork | null;
+	/** 定时器来源 */
+	private timers: KWebSocketTimers;
+	/** 页面生命周期来源，不支持或未启用时为 null */
+	private lifecycle: KWebSocketLifecycle | null;
+	/** 页面可见性配置（已合并默认值），未启用时为 null */
+	private visibility: Required<KWebSocketVisibilityOptions> | null;
+	/** 页面是否隐藏 */
+	private hidden = false;
+	/** 取消监听页面可见性 */
+	private unlistenLifecycle: (() => void) | undefined;
+	/** 定时器-存活探测 */
+	private probeTimer: KWebSocketTimerId | null = null;
+	/** 流量记录器，未启用时为 null */
+	private trafficRecorder: TrafficRecorder | null = null;
+	/** 传输方式列表 */
+	private transportList: Exclude<KWebSocketTransport, string>[];
+	/** 当前传输方式索引 */
+	private transportIndex = 0;
+	/** 当前传输方式连续未能打开连接的次数 */
+	private transportFailures = 0;
 	/** 重连次数 */
 	private reconnectTimes = 0;
 	/** 定时器-心跳 */
-	private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	private heartbeatTimer: KWebSocketTimerId | null = null;
 	/** 定时器-心跳超时检测 */
-	private heartbeatCheckTimer: ReturnType<typeof setInterval> | null = null;
+	private heartbeatCheckTimer: KWebSocketTimerId | null = null;
 	/** 定时器-重连 */
-	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	private reconnectTimer: KWebSocketTimerId | null = null;
 	/** 上次心跳时间 */
 	private lastHeartbeatTime: number = 0;
+	/** 心跳序号 */
+	private heartbeatSeq = 0;
+	/** 等待 pong 的心跳，序号 -> 发送时间 */
+	private pendingPings: Map<number, number> = new Map();
+	/** 往返时延样本（最近 100 次） */
+	private rttSamples: number[] = [];
 	/** 是否已销毁 */
 	private destroyed = false;
 	/** 是否手动关闭 */
@@ -54,12 +498,77 @@ export default class KWebSocket {
 	private isNetworkOffline = false;
 	/** 是否在恢复中 */
 	private isRecovering = false;
+	/** 连接序号，用于丢弃过期的异步 getUrl 结果 */
+	private initSeq = 0;
+	/** 下次建立连接时是否需要刷新凭证 */
+	private refreshOnInit = false;
+	/** 上次因关闭码重连后是否尚未打开连接 */
+	private closeCodeRetried = false;
+	/** 内置的 JSON 编解码器：自动序列化发送的消息，onMessage 接收解析后的对象 */
+	public static readonly JSONCodec = JSONCodec;
+	/** 内置的 MessagePack 二进制编解码器 */
+	public static readonly BinaryCodec = BinaryCodec;
+	/** 内存中的模拟服务，用于在 Node 中测试，通过 WebSocket 选项注入 server.WebSocket */
+	public static readonly MockWebSocketServer = MockWebSocketServer;
+	/** 模拟服务创建的连接 */
+	public static readonly MockWebSocket = MockWebSocket;
+	/** 微信小程序运行时适配：KWebSocket.createWxRuntime(wx, options) */
+	public static readonly createWxRuntime = createWxRuntime;
+	/** 流量记录器类，通常通过 recorder 选项启用 */
+	public static readonly TrafficRecorder = TrafficRecorder;
 	/** 所有Socket实例 */
 	private static instances: Map<string, KWebSocket> = new Map();
-	/** 网络恢复自动重连事件句柄 */
-	private recoverHandler: (() => void) | undefined;
-	/** 网络离线事件句柄 */
-	private offlineHandler: (() => void) | undefined;
+	/** 取消监听网络状态 */
+	private unlistenNetwork: (() => void) | undefined;
+	/** 请求/响应字段配置（已合并默认值） */
+	private rpc: Required<KWebSocketRpcOptions>;
+	/** 请求序号 */
+	private requestSeq = 0;
+	/** 等待响应的请求，键为字符串形式的请求 id */
+	private pendingRequests: Map<string, PendingRequest> = new Map();
+	/** 主题订阅配置（已合并默认值） */
+	private subscription: Required<KWebSocketSubscriptionOptions>;
+	/** 主题订阅表 */
+	private subscriptions: Map<string, Set<KWebSocketTopicHandler>> = new Map();
+	/** 离线队列配置（已合并默认值），未启用时为 null */
+	private queue:
+		| (Required<Omit<KWebSocketQueueOptions, "onDiscard">> &
+				Pick<KWebSocketQueueOptions, "onDiscard">)
+		| null;
+	/** 离线队列 */
+	private outbox: QueuedMessage[] = [];
+	/** 限流配置（已合并默认值），未启用时为 null */
+	private rateLimit: Required<KWebSocketRateLimitOptions> | null;
+	/** 令牌桶中的令牌数 */
+	private tokens = 0;
+	/** 上次补充令牌的时间 */
+	private lastRefillTime = 0;
+	/** 限流队列，按优先级排序 */
+	private paced: QueuedMessage[] = [];
+	/** 定时器-限流队列发送 */
+	private paceTimer: KWebSocketTimerId | null = null;
+	/** 断线续传配置（已合并默认值），未启用时为 null */
+	private resume: Required<
+		Omit<KWebSocketResumeOptions, "initialOffset">
+	> | null;
+	/** 最近收到的消息序号 / 偏移量 */
+	private offset: KWebSocketOffset | undefined;
+	/** 最近收到的消息 id，按接收顺序排列 */
+	private seenIds: Set<KWebSocketOffset> = new Set();
+	/** 接收队列，保证异步解码（Blob）时消息顺序不变 */
+	private receiving: Promise<void> = Promise.resolve();
+	/** 接收队列中待处理的消息数 */
+	private receivingCount = 0;
+	/** 当前连接状态 */
+	private currentState: KWebSocketState = "idle";
+	/** 跨标签页协调器，未启用共享连接时为 null */
+	private coordinator: TabCoordinator | null = null;
+	/** 是否已请求连接（共享模式下用于在当选 leader 后建立连接） */
+	private connectRequested = false;
+	/** 事件监听函数 */
+	private listeners: {
+		[K in keyof KWebSocketEventMap]?: KWebSocketEventMap[K][];
+	} = {};
 
 	/**
 	 * 获取实例，单例模式
@@ -121,28 +630,246 @@ export default class KWebSocket {
 			uniqueKey: "__DEFAULT__",
 			autoRecover: true,
 			autoConnect: true,
+			fallbackAfter: 2,
 		};
 		// 2. 合并配置
 		this.options = { ...defaults, ...options };
-		// 3. 绑定网络恢复自动重连
+		const idKey = options.rpc?.idKey || "id";
+		this.rpc = {
+			idKey,
+			responseIdKey: idKey,
+			methodKey: "method",
+			paramsKey: "params",
+			resultKey: "result",
+			errorKey: "error",
+			timeout: 10_000,
+			...options.rpc,
+		};
+		this.subscription = {
+			getTopic: (message) =>
+				typeof message?.topic === "string" ? message.topic : undefined,
+			subscribeFrame: (topic) => ({ type: "subscribe", topic }),
+			unsubscribeFrame: (topic) => ({ type: "unsubscribe", topic }),
+			...options.subscription,
+		};
+		const { offlineQueue } = options;
+		this.queue = offlineQueue
+			? {
+					maxLength: 100,
+					ttl: 0,
+					overflow: "drop-oldest",
+					...(typeof offlineQueue === "object" ? offlineQueue : {}),
+				}
+			: null;
+		const { rateLimit } = options;
+		this.rateLimit = rateLimit ? { burst: rateLimit.rate, ...rateLimit } : null;
+		this.tokens = this.rateLimit?.burst ?? 0;
+		this.lastRefillTime = Date.now();
+		const { resume } = options;
+		const resumeOptions = typeof resume === "object" ? resume : {};
+		const getOffset =
+			resumeOptions.getOffset ??
+			((message: any) =>
+				typeof message?.seq === "number" || typeof message?.seq === "string"
+					? message.seq
+					: undefined);
+		this.resume = resume
+			? {
+					getOffset,
+					getId: getOffset,
+					handshake: "query",
+					queryKey: "lastSeq",
+					resumeFrame: (offset) => ({ type: "resume", seq: offset }),
+					dedupWindow: 1000,
+					...resumeOptions,
+				}
+			: null;
+		this.offset = resumeOptions.initialOffset;
+		const { runtime = {} } = options;
+		this.network =
+			runtime.network === undefined ? getGlobalNetwork() : runtime.network;
+		this.timers = runtime.timers ?? globalTimers;
+		this.lifecycle =
+			runtime.lifecycle === undefined
+				? getGlobalLifecycle()
+				: runtime.lifecycle;
+		const { visibility = false } = options;
+		this.visibility = visibility
+			? {
+					pauseHeartbeat: false,
+					probeTimeout: 3000,
+					...(typeof visibility === "object" ? visibility : {}),
+				}
+			: null;
+		this.transportList = (options.transports ?? ["websocket"]).map(
+			(transport) =>
+				typeof transport === "string" ? { type: transport } : transport,
+		);
+		if (this.transportList.length === 0) {
+			this.transportList.push({ type: "websocket" });
+		}
+		if (options.recorder) {
+			this.trafficRecorder = new TrafficRecorder(
+				typeof options.recorder === "object" ? options.recorder : {},
+				() => ({ uniqueKey: this.options.uniqueKey!, url: this.options.url }),
+			);
+		}
+		// 3. 绑定网络恢复自动重连及页面可见性感知
 		this._bindAutoRecover();
-		// 4. 根据 autoConnect 决定是否立即连接
+		this._bindVisibility();
+		// 4. 启用跨标签页共享连接
+		this._bindShared();
+		// 5. 根据 autoConnect 决定是否立即连接
 		if (this.options.autoConnect) this.connect();
 	}
 
+	/** 当前连接状态 */
+	public get state() {
+		return this.currentState;
+	}
+
+	/** 最近收到的消息序号 / 偏移量（断线续传），可持久化后作为 initialOffset 传入 */
+	public get lastOffset() {
+		return this.offset;
+	}
+
+	/** 当前传输方式 */
+	public get transport(): KWebSocketTransportType {
+		return this.transportList[this.transportIndex].type;
+	}
+
+	/** 流量记录器，未启用 recorder 选项时为 null */
+	public get recorder() {
+		return this.trafficRecorder;
+	}
+
+	/** 心跳往返时延统计（ping-pong 模式） */
+	public get latency(): KWebSocketLatency {
+		const samples = this.rttSamples;
+		if (samples.length === 0) return { last: 0, avg: 0, p95: 0, samples: 0 };
+		const sorted = [...samples].sort((a, b) => a - b);
+		const sum = samples.reduce((total, rtt) => total + rtt, 0);
+		return {
+			last: samples[samples.length - 1],
+			avg: Math.round(sum / samples.length),
+			p95: sorted[
+				Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)
+			],
+			samples: samples.length,
+		};
+	}
+
+	/**
+	 * 监听事件，同一事件可添加多个监听函数
+	 * @param event 事件名称
+	 * @param listener 监听函数
+	 * @returns 移除监听的函数
+	 */
+	public on<K extends keyof KWebSocketEventMap>(
+		event: K,
+		listener: KWebSocketEventMap[K],
+	) {
+		if (!this.listeners[event]) this.listeners[event] = [];
+		this.listeners[event].push(listener);
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * 移除事件监听
+	 * @param event 事件名称
+	 * @param listener 监听函数，不传则移除该事件全部监听函数
+	 */
+	public off<K extends keyof KWebSocketEventMap>(
+		event: K,
+		listener?: KWebSocketEventMap[K],
+	) {
+		const listeners = this.listeners[event];
+		if (!listeners) return;
+		if (!listener) {
+			delete this.listeners[event];
+			return;
+		}
+		const index = listeners.indexOf(listener);
+		if (index !== -1) listeners.splice(index, 1);
+	}
+
+	/**
+	 * 监听事件，触发一次后自动移除
+	 * @param event 事件名称
+	 * @param listener 监听函数
+	 * @returns 移除监听的函数
+	 */
+	public once<K extends keyof KWebSocketEventMap>(
+		event: K,
+		listener: KWebSocketEventMap[K],
+	) {
+		const wrapper = ((...args: Parameters<KWebSocketEventMap[K]>) => {
+			this.off(event, wrapper);
+			(listener as (...args: any[]) => void)(...args);
+		}) as KWebSocketEventMap[K];
+		return this.on(event, wrapper);
+	}
+
+	/**
+	 * 触发事件
+	 */
+	private _emit<K extends keyof KWebSocketEventMap>(
+		event: K,
+		...args: Parameters<KWebSocketEventMap[K]>
+	) {
+		const listeners = this.listeners[event];
+		if (!listeners) return;
+		// 复制一份，避免 once 在遍历过程中修改数组
+		for (const listener of [...listeners]) {
+			(listener as (...args: any[]) => void)(...args);
+		}
+	}
+
+	/**
+	 * 更新连接状态
+	 */
+	private _setState(state: KWebSocketState) {
+		const prevState = this.currentState;
+		if (prevState === state) return;
+		this.currentState = state;
+		this._tips(`WebSocket：状态变化 ${prevState} -> ${state}`);
+		this._record("state", { state, prevState });
+		if (this.coordinator?.isLeader) {
+			this.coordinator.post({ type: "state", state });
+		}
+		this._emit("stateChange", state, prevState);
+	}
+
 	/** 主动连接接口 */
 	public connect() {
 		if (this.destroyed) return;
-		if (this.socket && this.socket.readyState !== WebSocket.CLOSED) return;
+		this.connectRequested = true;
+		if (this._isFollower()) {
+			// 由 leader 持有连接，同步其连接状态即可
+			this.manualCloseFlag = false;
+			this.coordinator!.post({ type: "hello" });
+			return;
+		}
+		if (this.socket && this.socket.readyState !== READY_STATE.CLOSED) return;
+		// getUrl 未返回，连接建立中
+		if (this.currentState === "connecting") return;
 		this.manualCloseFlag = false;
 		this._init();
 	}
 
 	/** 主动断开接口（不会销毁实例，可再次调用 connect） */
 	public disconnect() {
-		if (this.destroyed || !this.socket) return;
+		if (this.destroyed) return;
+		this.connectRequested = false;
+		if (this._isFollower()) {
+			this.manualCloseFlag = true;
+			this._setState("closed");
+			return;
+		}
+		if (!this.socket && this.currentState !== "connecting") return;
 		this.manualCloseFlag = true; // 标记为主动断开
 		this._closeSocket();
+		this._setState("closed");
 	}
 
 	/**
@@ -174,6 +901,15 @@ export default class KWebSocket {
 			return;
 		}
 
+		if (this._isFollower()) {
+			this.options.url = newUrl;
+			this._tips(
+				"WebSocket：当前标签页未持有连接，新 URL 将在当选 leader 后生效",
+				"warn",
+			);
+			return;
+		}
+
 		this._tips(`WebSocket：重新初始化连接 URL 为 ${newUrl}，准备重连`);
 
 		// 阻止旧 socket 触发重连
@@ -189,6 +925,8 @@ export default class KWebSocket {
 			// 重置状态
 			this.reconnectTimes = 0;
 			this.isRecovering = false;
+			// 新地址重新从首选传输方式开始尝试
+			this._switchTransport(0);
 			// 解锁手动关闭标志，新连接可以正常触发心跳和重连
 			this.manualCloseFlag = false;
 			// 建立新连接
@@ -196,7 +934,7 @@ export default class KWebSocket {
 		};
 
 		// 如果旧 socket 已关闭，直接初始化
-		if (!this.socket || this.socket.readyState === WebSocket.CLOSED) {
+		if (!this.socket || this.socket.readyState === READY_STATE.CLOSED) {
 			initNew();
 		} else {
 			// 旧 socket 未关闭，则监听 onclose 后初始化
@@ -212,7 +950,115 @@ export default class KWebSocket {
 	 * 初始化 WebSocket
 	 */
 	private _init() {
-		this.socket = new WebSocket(this.options.url);
+		if (this._isFollower()) return;
+		this._setState("connecting");
+		let createSocket = this._getSocketFactory();
+		// 当前环境不支持的传输方式直接回退
+		while (!createSocket && this._switchTransport(this.transportIndex + 1)) {
+			createSocket = this._getSocketFactory();
+		}
+		if (!createSocket) {
+			this._tips(
+				"WebSocket：当前环境不支持所配置的传输方式，请通过 WebSocket 或 runtime 选项传入 WebSocket",
+				"error",
+			);
+			this._setState("closed");
+			return;
+		}
+		if (!this.options.getUrl) {
+			this._createSocket(createSocket, this.options.url);
+			return;
+		}
+		const seq = ++this.initSeq;
+		const context: KWebSocketUrlContext = {
+			url: this.options.url,
+			refresh: this.refreshOnInit,
+			attempt: this.reconnectTimes,
+		};
+		this.refreshOnInit = false;
+		Promise.resolve()
+			.then(() => this.options.getUrl!(context))
+			.then(
+				(url) => {
+					if (seq !== this.initSeq || this.destroyed || this.manualCloseFlag) {
+						return;
+					}
+					this._createSocket(createSocket, url);
+				},
+				(error) => {
+					if (seq !== this.initSeq || this.destroyed || this.manualCloseFlag) {
+						return;
+					}
+					this._reportError(
+						new Error(`WebSocket：获取连接地址失败，${error?.message}`, {
+							cause: error,
+						}),
+					);
+					this._reconnect(false);
+				},
+			);
+	}
+
+	/**
+	 * 获取当前传输方式的连接工厂，当前环境不支持时返回 null
+	 */
+	private _getSocketFactory(): ((url: string) => KWebSocketLike) | null {
+		const transport = this.transportList[this.transportIndex];
+		if (transport.type === "websocket") {
+			const WebSocketImpl = this.options.WebSocket ?? globalThis.WebSocket;
+			return (
+				this.options.runtime?.createSocket ??
+				(WebSocketImpl ? (url) => new WebSocketImpl(url) : null)
+			);
+		}
+		if (!isHttpTransportSupported(transport)) return null;
+		return (url) => createHttpSocket(transport, url);
+	}
+
+	/**
+	 * 切换传输方式
+	 * @param index 传输方式索引
+	 * @returns 是否切换成功（索引超出范围时为 false）
+	 */
+	private _switchTransport(index: number) {
+		if (index >= this.transportList.length) return false;
+		this.transportFailures = 0;
+		if (index === this.transportIndex) return true;
+		const prevTransport = this.transport;
+		this.transportIndex = index;
+		this._tips(
+			`WebSocket：传输方式切换 ${prevTransport} -> ${this.transport}`,
+			"warn",
+		);
+		this._emit("transportChange", this.transport, prevTransport);
+		return true;
+	}
+
+	/**
+	 * 连接未能打开时计数，达到 fallbackAfter 次后回退到下一个传输方式并立即重连
+	 * @returns 是否已回退
+	 */
+	private _handleUpgradeFailure() {
+		if (++this.transportFailures < this.options.fallbackAfter!) return false;
+		if (!this._switchTransport(this.transportIndex + 1)) return false;
+		this.reconnectTimes = 0;
+		this._reconnect(true, 0);
+		return true;
+	}
+
+	/**
+	 * 创建连接
+	 */
+	private _createSocket(
+		createSocket: (url: string) => KWebSocketLike,
+		url: string,
+	) {
+		const connectUrl = this._getConnectUrl(url);
+		this._record("connect", { url: connectUrl });
+		this.socket = createSocket(connectUrl);
+		const binaryType =
+			this.options.binaryType ?? this.options.codec?.binaryType;
+		if (binaryType) this.socket.binaryType = binaryType;
 		this.lastHeartbeatTime = Date.now();
 		this._watch();
 	}
@@ -222,51 +1068,709 @@ export default class KWebSocket {
 	 */
 	private _watch() {
 		if (!this.socket) return;
+		const socket = this.socket;
+		/** 当前连接是否打开过 */
+		let opened = false;
 
 		this.socket.onopen = () => {
+			opened = true;
+			this.transportFailures = 0;
 			this._tips("WebSocket：连接打开");
-			this.options.onConnected();
+			this._record("open");
+			this._setState("open");
+			this._sendResumeFrame();
+			this._resubscribe();
+			this._flushQueue();
+			this.options.onConnected?.();
+			this._emit("open");
 			this.reconnectTimes = 0;
+			this.closeCodeRetried = false;
 			this.lastHeartbeatTime = Date.now();
-			this.sendHeartbeat();
-			this.startHeartbeatCheck();
+			if (!this.hidden || !this.visibility?.pauseHeartbeat) {
+				this.sendHeartbeat();
+			}
+			// 页面隐藏时不检测心跳超时，恢复可见时再探测
+			if (!this.hidden) this.startHeartbeatCheck();
 		};
 
 		this.socket.onmessage = (event) => {
-			this.lastHeartbeatTime = Date.now();
-			if (event.data === this.options.heartbeat) return;
-			this._tips(`WebSocket：接收到消息：${event.data}`);
-			this.options.onMessage(event.data);
+			this._record("receive", undefined, event.data);
+			if (this.options.heartbeatMode !== "ping-pong") {
+				this.lastHeartbeatTime = Date.now();
+				this._settleProbe();
+				if (event.data === this.options.heartbeat) return;
+			}
+			this._tips(`WebSocket：接收到消息：${this._describe(event.data)}`);
+			this.coordinator?.post({ type: "message", data: event.data });
+			this._receive(event.data);
 		};
 
 		this.socket.onclose = (event) => {
-			this._clearTimers();
+			this._record("close", { code: event.code, reason: event.reason });
+			// 主动关闭（如心跳超时重连）时定时器已清理、重连已安排，不能再清理或重连
+			const closed = this.closedSockets.has(socket);
+			if (!closed) this._clearTimers();
+			// 新连接已建立时，限流队列及等待中的请求属于新连接
+			if (socket === this.socket) {
+				this._releasePaced();
+				this._rejectPendingRequests("WebSocket：连接已关闭");
+			}
 			this.options.onClose?.(event);
+			this._emit("close", event);
 			this._tips("WebSocket：连接断开");
+			if (this.destroyed || closed) return;
+			if (!this.manualCloseFlag && this._handleCloseCode(event.code)) return;
+			if (!this.manualCloseFlag && !opened && this._handleUpgradeFailure()) {
+				return;
+			}
 			if (
 				!this.manualCloseFlag &&
 				this.reconnectTimes < this.options.maxReconnectTimes!
-			)
+			) {
 				this._reconnect(false);
+			} else if (!this.manualCloseFlag) {
+				this._setState("closed");
+			}
 		};
 
 		this.socket.onerror = (event) => {
-			this._tips(`WebSocket Error: ${event}`, "error");
-			this.options.onError?.(event);
+			this._reportError(event);
 		};
 	}
 
+	/**
+	 * 按 closeCodes 处理关闭码
+	 * @returns 是否已处理
+	 */
+	private _handleCloseCode(code: number) {
+		const behavior = this.options.closeCodes?.[code];
+		if (!behavior) return false;
+		if (behavior === "close") {
+			this._tips(`WebSocket：连接关闭（${code}），不再重连`, "warn");
+			this._setState("closed");
+			return true;
+		}
+		// 刷新凭证或立即重连后仍未能打开连接，按普通断开处理，避免无限重连
+		if (this.closeCodeRetried) return false;
+		this.closeCodeRetried = true;
+		this.refreshOnInit = behavior === "refresh";
+		this._tips(
+			`WebSocket：连接关闭（${code}），${behavior === "refresh" ? "刷新凭证后" : ""}立即重连`,
+		);
+		this._reconnect(true, 0);
+		return true;
+	}
+
+	/**
+	 * 接收消息，Blob 需异步解码，之后到达的消息排队处理以保证顺序
+	 */
+	private _receive(data: unknown) {
+		const isBlob = typeof Blob !== "undefined" && data instanceof Blob;
+		if (!(this.options.codec && isBlob) && this.receivingCount === 0) {
+			this._handleMessage(data);
+			return;
+		}
+		this.receivingCount++;
+		this.receiving = this.receiving
+			.then(async () => {
+				const raw = isBlob ? await (data as Blob).arrayBuffer() : data;
+				this._handleMessage(raw);
+			})
+			.catch((error) => this._reportError(error))
+			.finally(() => {
+				this.receivingCount--;
+			});
+	}
+
+	/**
+	 * 处理消息：解码、匹配请求响应、分发主题、通知外部
+	 */
+	private _handleMessage(raw: unknown) {
+		const { codec } = this.options;
+		let message = raw;
+		if (codec) {
+			try {
+				message = codec.decode(raw as string | ArrayBuffer);
+			} catch (error: any) {
+				this._reportError(
+					new Error(
+						`WebSocket：消息解码失败（${codec.name}），${error?.message}`,
+						{
+							cause: error,
+						},
+					),
+				);
+				return;
+			}
+		}
+		const parsed = codec
+			? message && typeof message === "object"
+				? (message as Record<string, any>)
+				: null
+			: this._parse(raw);
+		if (this._handlePong(codec ? message : (parsed ?? raw))) return;
+		if (this._isDuplicate(codec ? message : parsed)) return;
+		if (this._settleRequest(parsed)) return;
+		this._dispatchTopic(codec ? message : (parsed ?? raw));
+		this.options.onMessage?.(message);
+		this._emit("message", message);
+	}
+
+	/**
+	 * 断线续传：记录消息序号，并过滤重复（补发）的消息
+	 * @returns 消息是否重复
+	 */
+	private _isDuplicate(message: unknown) {
+		if (!this.resume || !message || typeof message !== "object") return false;
+		const id = this.resume.getId(message);
+		if (id !== undefined) {
+			if (this.seenIds.has(id)) {
+				this._tips(`WebSocket：忽略重复消息（${id}）`);
+				return true;
+			}
+			this.seenIds.add(id);
+			if (this.seenIds.size > this.resume.dedupWindow) {
+				this.seenIds.delete(this.seenIds.values().next().value!);
+			}
+		}
+		const offset = this.resume.getOffset(message);
+		// 数字序号只前进不后退，乱序到达的旧消息不影响续传位置
+		if (
+			offset !== undefined &&
+			!(
+				typeof offset === "number" &&
+				typeof this.offset === "number" &&
+				offset < this.offset
+			)
+		) {
+			this.offset = offset;
+		}
+		return false;
+	}
+
+	/**
+	 * 获取连接地址，断线续传（query）时追加最近收到的消息序号
+	 */
+	private _getConnectUrl(url: string) {
+		if (this.resume?.handshake !== "query" || this.offset === undefined) {
+			return url;
+		}
+		const [base, hash] = url.split("#");
+		const param = `${encodeURIComponent(this.resume.queryKey)}=${encodeURIComponent(this.offset)}`;
+		const separator = base.includes("?") ? "&" : "?";
+		return `${base}${separator}${param}${hash === undefined ? "" : `#${hash}`}`;
+	}
+
+	/**
+	 * 断线续传（frame）：连接打开后首先发送恢复帧
+	 */
+	private _sendResumeFrame() {
+		if (this.resume?.handshake !== "frame" || this.offset === undefined) {
+			return;
+		}
+		this._tips(`WebSocket：发送恢复帧，最近消息序号 ${this.offset}`);
+		this._sendFrame(this._encode(this.resume.resumeFrame(this.offset)));
+	}
+
+	/**
+	 * 通知连接错误或消息解码错误
+	 */
+	private _reportError(error: Event | Error) {
+		this._tips(`WebSocket Error: ${error}`, "error");
+		this._record("error", {
+			message: error instanceof Error ? error.message : error.type,
+		});
+		this.options.onError?.(error);
+		this._emit("error", error);
+	}
+
+	/**
+	 * 编码消息
+	 * 未配置 codec 时，字符串及二进制数据原样发送，其余数据 JSON 序列化
+	 */
+	private _encode(data: unknown): KWebSocketFrame {
+		if (this.options.codec) return this.options.codec.encode(data);
+		if (
+			typeof data === "string" ||
+			data instanceof ArrayBuffer ||
+			ArrayBuffer.isView(data) ||
+			(typeof Blob !== "undefined" && data instanceof Blob)
+		) {
+			return data;
+		}
+		return JSON.stringify(data);
+	}
+
+	/**
+	 * 生成日志中的消息描述，二进制数据仅输出长度
+	 */
+	private _describe(frame: unknown) {
+		if (typeof frame === "string") return frame;
+		if (frame instanceof ArrayBuffer)
+			return `[binary ${frame.byteLength} bytes]`;
+		if (ArrayBuffer.isView(frame)) return `[binary ${frame.byteLength} bytes]`;
+		if (typeof Blob !== "undefined" && frame instanceof Blob) {
+			return `[blob ${frame.size} bytes]`;
+		}
+		return String(frame);
+	}
+
 	/**
 	 * 发送消息
+	 * 连接未打开时，若启用了离线队列则缓存消息，否则丢弃
+	 * @param data 消息，配置 codec 时由 codec 编码，否则非字符串、非二进制数据会被 JSON 序列化
+	 * @param options 发送配置
+	 */
+	public send(data: unknown, options?: KWebSocketSendOptions) {
+		this._transmit(data, options);
+	}
+
+	/**
+	 * 发送或缓存消息
+	 * @returns sent 已发送，queued 已进入离线队列，dropped 已丢弃
+	 */
+	private _transmit(
+		data: unknown,
+		options?: KWebSocketSendOptions,
+		requestId?: string,
+	): "sent" | "queued" | "dropped" {
+		const payload = this._encode(data);
+		const { priority = "normal", coalesceKey } = options ?? {};
+		if (
+			coalesceKey !== undefined &&
+			this._coalesce(coalesceKey, data, payload, options?.ttl)
+		) {
+			return "queued";
+		}
+		if (!this._isOpen()) {
+			if (!this.queue) {
+				this._tips("WebSocket：无法发送消息，连接未打开", "warn");
+				return "dropped";
+			}
+			const ttl = options?.ttl ?? this.queue.ttl;
+			const expiresAt = ttl > 0 ? Date.now() + ttl : 0;
+			return this._enqueue({
+				data,
+				payload,
+				expiresAt,
+				requestId,
+				priority,
+				coalesceKey,
+			});
+		}
+		return this._dispatch({
+			data,
+			payload,
+			expiresAt: 0,
+			requestId,
+			priority,
+			coalesceKey,
+		});
+	}
+
+	/**
+	 * 连接已打开时发送消息，超出限流时进入限流队列
+	 */
+	private _dispatch(message: QueuedMessage): "sent" | "queued" {
+		if (
+			message.priority !== "high" &&
+			(this.paced.length > 0 || !this._takeToken())
+		) {
+			this._pace(message);
+			return "queued";
+		}
+		this._deliver(message);
+		return "sent";
+	}
+
+	/**
+	 * 发送消息，关联的请求标记为已发出
+	 */
+	private _deliver(message: QueuedMessage) {
+		this._sendFrame(message.payload);
+		this._tips(`WebSocket：发送消息：${this._describe(message.payload)}`);
+		if (message.requestId !== undefined) {
+			const pending = this.pendingRequests.get(message.requestId);
+			if (pending) pending.sent = true;
+		}
+	}
+
+	/**
+	 * 用新消息替换等待发送的同键消息
+	 * @returns 是否已合并
+	 */
+	private _coalesce(
+		key: string,
+		data: unknown,
+		payload: KWebSocketFrame,
+		ttl?: number,
+	) {
+		const waiting =
+			this.paced.find((message) => message.coalesceKey === key) ??
+			this.outbox.find((message) => message.coalesceKey === key);
+		if (!waiting) return false;
+		waiting.data = data;
+		waiting.payload = payload;
+		if (this.outbox.includes(waiting)) {
+			const messageTtl = ttl ?? this.queue?.ttl ?? 0;
+			waiting.expiresAt = messageTtl > 0 ? Date.now() + messageTtl : 0;
+		}
+		this._tips(`WebSocket：合并消息（${key}）`);
+		return true;
+	}
+
+	/**
+	 * 补充令牌并尝试取出一个
+	 * @returns 是否取得令牌，未启用限流时始终为 true
+	 */
+	private _takeToken() {
+		if (!this.rateLimit) return true;
+		this._refillTokens();
+		if (this.tokens < 1) return false;
+		this.tokens -= 1;
+		return true;
+	}
+
+	/**
+	 * 按经过的时间补充令牌
+	 */
+	private _refillTokens() {
+		const { rate, burst } = this.rateLimit!;
+		const now = Date.now();
+		this.tokens = Math.min(
+			burst,
+			this.tokens + ((now - this.lastRefillTime) * rate) / 1000,
+		);
+		this.lastRefillTime = now;
+	}
+
+	/**
+	 * 消息进入限流队列，按优先级插入
+	 */
+	private _pace(message: QueuedMessage) {
+		const rank = PRIORITY_RANK[message.priority];
+		let index = this.paced.length;
+		while (index > 0 && PRIORITY_RANK[this.paced[index - 1].priority] > rank) {
+			index--;
+		}
+		this.paced.splice(index, 0, message);
+		this._tips(`WebSocket：发送受限，消息进入限流队列（${this.paced.length}）`);
+		this._schedulePaced();
+	}
+
+	/**
+	 * 等待令牌补充后发送限流队列中的消息
+	 */
+	private _schedulePaced() {
+		if (this.paceTimer || !this.rateLimit || this.paced.length === 0) return;
+		this._refillTokens();
+		const delay = Math.ceil(((1 - this.tokens) * 1000) / this.rateLimit.rate);
+		this.paceTimer = this.timers.setTimeout(
+			() => {
+				this.paceTimer = null;
+				while (this.paced.length > 0 && this._isOpen() && this._takeToken()) {
+					this._deliver(this.paced.shift()!);
+				}
+				if (this._isOpen()) this._schedulePaced();
+			},
+			Math.max(0, delay),
+		);
+	}
+
+	/**
+	 * 连接断开时处理限流队列中的消息：启用离线队列时移入离线队列，否则丢弃
 	 */
-	public send(data: unknown) {
-		if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
-			this._tips("WebSocket：无法发送消息，连接未打开", "warn");
+	private _releasePaced() {
+		if (this.paced.length === 0) return;
+		const messages = this.paced;
+		this.paced = [];
+		if (!this.queue) {
+			this._discard(messages, "closed");
 			return;
 		}
-		const payload = typeof data === "string" ? data : JSON.stringify(data);
-		this.socket.send(payload);
-		this._tips(`WebSocket：发送消息：${payload}`);
+		this.outbox = [...messages, ...this.outbox];
+		const overflow = this.outbox.length - this.queue.maxLength;
+		if (overflow > 0) {
+			this._discard(
+				this.queue.overflow === "drop-newest"
+					? this.outbox.splice(-overflow)
+					: this.outbox.splice(0, overflow),
+				"overflow",
+			);
+		}
+	}
+
+	/**
+	 * 连接是否已打开（共享模式下 follower 以 leader 的连接状态为准）
+	 */
+	private _isOpen() {
+		if (this._isFollower()) return this.currentState === "open";
+		return this.socket?.readyState === READY_STATE.OPEN;
+	}
+
+	/**
+	 * 发送已编码的帧，follower 交由 leader 发送
+	 */
+	private _sendFrame(frame: KWebSocketFrame) {
+		if (this._isFollower()) {
+			this.coordinator!.post({ type: "send", data: frame });
+		} else {
+			this._record("send", undefined, frame);
+			this.socket!.send(frame);
+		}
+	}
+
+	/**
+	 * 消息进入离线队列
+	 */
+	private _enqueue(message: QueuedMessage): "queued" | "dropped" {
+		const queue = this.queue!;
+		this._purgeExpired();
+		if (this.outbox.length >= queue.maxLength) {
+			if (queue.overflow === "drop-newest") {
+				this._discard([message], "overflow");
+				return "dropped";
+			}
+			this._discard(this.outbox.splice(0, 1), "overflow");
+		}
+		this.outbox.push(message);
+		this._tips(
+			`WebSocket：连接未打开，消息已进入离线队列（${this.outbox.length}/${queue.maxLength}）`,
+		);
+		return "queued";
+	}
+
+	/**
+	 * 连接打开后按顺序发送离线队列中的消息（启用限流时同样受限）
+	 */
+	private _flushQueue() {
+		this._schedulePaced();
+		this._purgeExpired();
+		if (this.outbox.length === 0) return;
+		const messages = this.outbox;
+		this.outbox = [];
+		this._tips(`WebSocket：发送离线队列中的 ${messages.length} 条消息`);
+		for (const message of messages) {
+			this._dispatch(message);
+		}
+	}
+
+	/**
+	 * 移除离线队列中已过期的消息
+	 */
+	private _purgeExpired() {
+		const now = Date.now();
+		const expired = this.outbox.filter(
+			(message) => message.expiresAt && message.expiresAt <= now,
+		);
+		if (expired.length === 0) return;
+		this.outbox = this.outbox.filter((message) => !expired.includes(message));
+		this._discard(expired, "expired");
+	}
+
+	/**
+	 * 丢弃离线消息，关联的请求同时被拒绝
+	 */
+	private _discard(messages: QueuedMessage[], reason: KWebSocketDiscardReason) {
+		if (messages.length === 0) return;
+		this._tips(
+			`WebSocket：丢弃 ${messages.length} 条离线消息（${reason}）`,
+			"warn",
+		);
+		for (const message of messages) {
+			if (message.requestId === undefined) continue;
+			const pending = this.pendingRequests.get(message.requestId);
+			if (!pending) continue;
+			this.timers.clearTimeout(pending.timer);
+			this.pendingRequests.delete(message.requestId);
+			pending.reject(
+				new Error(
+					`WebSocket：请求 ${pending.method} 失败，离线消息已丢弃（${reason}）`,
+				),
+			);
+		}
+		this.queue?.onDiscard?.(
+			messages.map((message) => message.data),
+			reason,
+		);
+	}
+
+	/**
+	 * 发送请求并等待服务端响应
+	 * 请求帧格式为 { [idKey]: id, [methodKey]: method, [paramsKey]: params }，
+	 * 服务端需在响应中原样返回 id（字段名为 responseIdKey）
+	 * @param method 请求方法
+	 * @param params 请求参数
+	 * @param options 请求配置
+	 * @returns 响应中 resultKey 字段的值
+	 */
+	public request<T = any>(
+		method: string,
+		params?: unknown,
+		options?: KWebSocketRequestOptions,
+	): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			const isOpen = this._isOpen();
+			if (!isOpen && !this.queue) {
+				reject(new Error(`WebSocket：请求 ${method} 失败，连接未打开`));
+				return;
+			}
+			// 共享模式下多个标签页经同一连接发送请求，id 需携带标签页标识
+			const id = this.coordinator
+				? `${this.coordinator.id}.${++this.requestSeq}`
+				: ++this.requestSeq;
+			// 服务端可能将数字 id 以字符串返回，统一按字符串匹配
+			const key = String(id);
+			const timeout = options?.timeout ?? this.rpc.timeout;
+			const timer = this.timers.setTimeout(() => {
+				this.pendingRequests.delete(key);
+				// 仍在离线队列中的请求帧无需再发送
+				this.outbox = this.outbox.filter(
+					(message) => message.requestId !== key,
+				);
+				reject(new Error(`WebSocket：请求 ${method} 超时（${timeout} ms）`));
+			}, timeout);
+			this.pendingRequests.set(key, {
+				method,
+				resolve,
+				reject,
+				timer,
+				sent: false,
+			});
+			// 请求帧发出时（_deliver）标记为已发出
+			this._transmit(
+				{
+					[this.rpc.idKey]: id,
+					[this.rpc.methodKey]: method,
+					[this.rpc.paramsKey]: params,
+				},
+				{ priority: options?.priority },
+				key,
+			);
+		});
+	}
+
+	/**
+	 * 订阅主题
+	 * 首次订阅某个主题时发送订阅帧，连接重新打开后（包括重连、reinitialize、网络恢复）自动重发
+	 * @param topic 主题
+	 * @param handler 主题消息处理函数
+	 * @returns 取消当前订阅的函数
+	 */
+	public subscribe(topic: string, handler: KWebSocketTopicHandler) {
+		let handlers = this.subscriptions.get(topic);
+		if (!handlers) {
+			handlers = new Set();
+			this.subscriptions.set(topic, handlers);
+			if (this._isOpen()) {
+				this.send(this.subscription.subscribeFrame(topic), {
+					priority: "high",
+				});
+			}
+		}
+		handlers.add(handler);
+		return () => this.unsubscribe(topic, handler);
+	}
+
+	/**
+	 * 取消订阅主题
+	 * 主题下没有处理函数时发送取消订阅帧
+	 * @param topic 主题
+	 * @param handler 处理函数，不传则移除该主题下全部处理函数
+	 */
+	public unsubscribe(topic: string, handler?: KWebSocketTopicHandler) {
+		const handlers = this.subscriptions.get(topic);
+		if (!handlers) return;
+		if (handler) handlers.delete(handler);
+		if (handler && handlers.size > 0) return;
+		this.subscriptions.delete(topic);
+		if (this._isOpen()) {
+			this.send(this.subscription.unsubscribeFrame(topic), {
+				priority: "high",
+			});
+		}
+	}
+
+	/**
+	 * 重发所有主题的订阅帧
+	 */
+	private _resubscribe() {
+		if (this.subscriptions.size === 0) return;
+		this._tips(`WebSocket：重新订阅 ${this.subscriptions.size} 个主题`);
+		for (const topic of this.subscriptions.keys()) {
+			this.send(this.subscription.subscribeFrame(topic), { priority: "high" });
+		}
+	}
+
+	/**
+	 * 按主题分发消息
+	 */
+	private _dispatchTopic(message: unknown) {
+		if (this.subscriptions.size === 0) return;
+		const topic = this.subscription.getTopic(message);
+		if (topic === undefined) return;
+		const handlers = this.subscriptions.get(topic);
+		if (!handlers) return;
+		for (const handler of handlers) {
+			handler(message, topic);
+		}
+	}
+
+	/**
+	 * 尝试将消息解析为对象，解析失败返回 null
+	 */
+	private _parse(data: unknown): Record<string, any> | null {
+		if (typeof data !== "string") return null;
+		try {
+			const message = JSON.parse(data);
+			return message && typeof message === "object" ? message : null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * 匹配请求响应
+	 * @returns 消息是否为某个请求的响应
+	 */
+	private _settleRequest(message: Record<string, any> | null) {
+		if (!message) return false;
+		const id = message[this.rpc.responseIdKey];
+		if (id === undefined || id === null) return false;
+		const key = String(id);
+		const pending = this.pendingRequests.get(key);
+		if (!pending) {
+			// 共享模式下其他标签页发起的请求的响应，忽略即可
+			return !!this.coordinator && key.startsWith(TAB_ID_PREFIX);
+		}
+		this.timers.clearTimeout(pending.timer);
+		this.pendingRequests.delete(key);
+		const error = message[this.rpc.errorKey];
+		if (error !== undefined && error !== null) {
+			const reason = typeof error === "string" ? error : error.message;
+			pending.reject(
+				new Error(`WebSocket：请求 ${pending.method} 失败，${reason}`, {
+					cause: error,
+				}),
+			);
+		} else {
+			pending.resolve(message[this.rpc.resultKey]);
+		}
+		return true;
+	}
+
+	/**
+	 * 拒绝所有等待中的请求
+	 * @param reason 原因
+	 */
+	private _rejectPendingRequests(reason: string) {
+		for (const [id, pending] of this.pendingRequests) {
+			// 仍在离线队列中的请求等待重连后发送
+			if (!pending.sent) continue;
+			this.timers.clearTimeout(pending.timer);
+			this.pendingRequests.delete(id);
+			pending.reject(new Error(`${reason}，请求 ${pending.method} 已取消`));
+		}
 	}
 
 	/**
@@ -274,22 +1778,75 @@ export default class KWebSocket {
 	 */
 	private sendHeartbeat() {
 		if (this.heartbeatTimer) return;
-		const heartbeat = (this.options.customHeartbeat?.() ||
-			this.options.heartbeat)!;
+		this.pendingPings.clear();
 
 		// 定时发送心跳
-		this.heartbeatTimer = setInterval(() => {
-			if (this.socket?.readyState === WebSocket.OPEN) {
-				this.socket.send(heartbeat);
-				this._tips("WebSocket：💓 心跳发送");
-			}
-		}, this.options.heartInterval);
+		this.heartbeatTimer = this.timers.setInterval(
+			() => this._ping(),
+			this.options.heartInterval!,
+		);
 
 		// 立即发送一次
-		if (this.socket?.readyState === WebSocket.OPEN) {
-			this.socket.send(heartbeat);
-			this._tips("WebSocket：💓 心跳发送");
+		this._ping();
+	}
+
+	/**
+	 * 发送一次心跳，每次重新生成心跳帧
+	 */
+	private _ping() {
+		if (this.socket?.readyState !== READY_STATE.OPEN) return;
+		const seq = ++this.heartbeatSeq;
+		const isPingPong = this.options.heartbeatMode === "ping-pong";
+		const heartbeat =
+			this.options.customHeartbeat?.(seq) ||
+			(isPingPong ? { type: "ping", seq } : this.options.heartbeat!);
+		const frame =
+			typeof heartbeat === "string" ? heartbeat : this._encode(heartbeat);
+		this._record("heartbeat", { seq }, frame);
+		this.socket.send(frame);
+		if (isPingPong) {
+			this.pendingPings.set(seq, Date.now());
+			// 长时间未响应的心跳不再等待，避免堆积
+			if (this.pendingPings.size > 100) {
+				this.pendingPings.delete(this.pendingPings.keys().next().value!);
+			}
 		}
+		this._tips(`WebSocket：💓 心跳发送（#${seq}）`);
+	}
+
+	/**
+	 * 处理 pong（ping-pong 模式）
+	 * @returns 消息是否为 pong
+	 */
+	private _handlePong(message: unknown) {
+		if (this.options.heartbeatMode !== "ping-pong") return false;
+		const isPong = this.options.isPong
+			? this.options.isPong(message)
+			: (message as Record<string, any> | null)?.type === "pong";
+		if (!isPong) return false;
+		const now = Date.now();
+		this.lastHeartbeatTime = now;
+		const seq = this.options.getPongSeq
+			? this.options.getPongSeq(message)
+			: (message as Record<string, any>).seq;
+		// 未携带序号时匹配最早发出的心跳
+		const matched: number | undefined =
+			seq === undefined ? this.pendingPings.keys().next().value : seq;
+		if (matched === undefined || !this.pendingPings.has(matched)) {
+			this._settleProbe();
+			return true;
+		}
+		const rtt = now - this.pendingPings.get(matched)!;
+		// 早于匹配序号的心跳视为已丢失
+		for (const key of this.pendingPings.keys()) {
+			if (key <= matched) this.pendingPings.delete(key);
+		}
+		this.rttSamples.push(rtt);
+		if (this.rttSamples.length > 100) this.rttSamples.shift();
+		this._tips(`WebSocket：💓 收到心跳响应（#${matched}），往返时延 ${rtt} ms`);
+		this._emit("latency", rtt, this.latency);
+		this._settleProbe();
+		return true;
 	}
 
 	/**
@@ -297,65 +1854,122 @@ export default class KWebSocket {
 	 */
 	private startHeartbeatCheck() {
 		this.stopHeartbeatCheck();
-		this.heartbeatCheckTimer = setInterval(() => {
-			const diff = Date.now() - this.lastHeartbeatTime;
-			if (diff > this.options.heartTimeout!) {
+		let lastTick = Date.now();
+		this.heartbeatCheckTimer = this.timers.setInterval(() => {
+			const now = Date.now();
+			// 两次检测间隔远大于心跳间隔，说明定时器被节流或页面被冻结过
+			const throttled = now - lastTick > this.options.heartInterval! * 2;
+			lastTick = now;
+			const diff = now - this.lastHeartbeatTime;
+			if (diff > this.options.heartTimeout! && throttled && this.visibility) {
+				this._tips("WebSocket：检测定时器被延迟执行，先探测连接是否存活");
+				this.stopHeartbeatCheck();
+				this._probe();
+			} else if (diff > this.options.heartTimeout!) {
 				this._tips(
 					`WebSocket：心跳超时，强制关闭并重连，心跳间隔为 ${this.options.heartInterval} ms`,
 					"warn",
 				);
+				this._record("heartbeatTimeout", { elapsed: diff });
+				this._emit("heartbeatTimeout", { elapsed: diff });
 				this._reconnect(false);
 			}
-		}, this.options.heartInterval);
+		}, this.options.heartInterval!);
+	}
+
+	/**
+	 * 停止发送心跳
+	 */
+	private stopHeartbeat() {
+		if (this.heartbeatTimer) this.timers.clearInterval(this.heartbeatTimer);
+		this.heartbeatTimer = null;
 	}
 
 	/**
 	 * 停止心跳超时检测
 	 */
 	private stopHeartbeatCheck() {
-		if (this.heartbeatCheckTimer) clearInterval(this.heartbeatCheckTimer);
+		if (this.heartbeatCheckTimer) {
+			this.timers.clearInterval(this.heartbeatCheckTimer);
+		}
 		this.heartbeatCheckTimer = null;
 	}
 
 	/**
 	 * 关闭 socket 并尝试重连 / 强制重连
 	 * @param force 是否不受 maxReconnectTimes 限制
+	 * @param delay 重连延迟，默认按重连策略计算
 	 */
-	private _reconnect(force: boolean) {
-		if (this.manualCloseFlag) return;
+	private _reconnect(force: boolean, delay?: number) {
+		if (this.manualCloseFlag || this._isFollower()) return;
 		this._closeSocket();
 		if (!force) this.reconnectTimes++;
 		if (force || this.reconnectTimes <= this.options.maxReconnectTimes!) {
-			const delay = this.options.reconnectInterval;
+			const attempt = Math.max(this.reconnectTimes, 1);
+			delay ??= this._getReconnectDelay(attempt);
 			this._tips(
-				`WebSocket：尝试第 ${this.reconnectTimes} 次重连${force ? "（强制）" : ""}`,
+				`WebSocket：${delay} ms 后尝试第 ${this.reconnectTimes} 次重连${force ? "（强制）" : ""}`,
 			);
-			this.reconnectTimer = setTimeout(() => {
+			this._record("reconnect", { attempt, delay, force });
+			this._setState(this.isNetworkOffline ? "offline" : "reconnecting");
+			this.options.onReconnecting?.({ attempt, delay, force });
+			this._emit("reconnecting", { attempt, delay, force });
+			this.reconnectTimer = this.timers.setTimeout(() => {
 				if (this.manualCloseFlag) return;
 				if (force) this.isRecovering = false;
 				this._init();
 			}, delay);
 		} else {
 			this._tips("WebSocket：已达到最大重连次数，不再重连", "warn");
+			this._setState("closed");
+		}
+	}
+
+	/**
+	 * 根据重连策略计算重连延迟
+	 * @param attempt 第几次重连，从 1 开始
+	 */
+	private _getReconnectDelay(attempt: number) {
+		const strategy = this.options.reconnectStrategy || "fixed";
+		if (typeof strategy === "function") {
+			return Math.max(0, strategy(attempt));
 		}
+		const {
+			type,
+			initialDelay = this.options.reconnectInterval!,
+			factor = 2,
+			maxDelay = Math.max(60_000, initialDelay),
+			jitter = "none",
+		} = typeof strategy === "string" ? { type: strategy } : strategy;
+		let delay = initialDelay;
+		if (type === "linear") delay = initialDelay * attempt;
+		if (type === "exponential") delay = initialDelay * factor ** (attempt - 1);
+		delay = Math.min(delay, maxDelay);
+		if (jitter === "full") delay = Math.random() * delay;
+		if (jitter === "equal") delay = delay / 2 + Math.random() * (delay / 2);
+		return Math.round(delay);
 	}
 
 	/**
 	 * 绑定网络恢复自动重连
 	 */
 	private _bindAutoRecover() {
-		if (!this.options.autoRecover || typeof window === "undefined") return;
+		if (!this.options.autoRecover || !this.network) return;
 
-		// 绑定 offline
-		this.offlineHandler = () => {
+		// 网络断开
+		const offlineHandler = () => {
 			this.isNetworkOffline = true;
 			this._tips("WebSocket：检测到网络断开", "warn");
+			if (!this.manualCloseFlag) this._setState("offline");
 		};
-		window.addEventListener("offline", this.offlineHandler);
 
-		// 绑定 online
-		this.recoverHandler = () => {
+		// 网络恢复
+		const recoverHandler = () => {
 			if (this.manualCloseFlag || !this.isNetworkOffline) return;
+			if (this._isFollower()) {
+				this.isNetworkOffline = false;
+				return;
+			}
 			this.isNetworkOffline = false;
 			this.reconnectTimes = 0;
 			this._tips("WebSocket：网络恢复，已重置重连次数为 0");
@@ -363,7 +1977,7 @@ export default class KWebSocket {
 			const diff = Date.now() - this.lastHeartbeatTime;
 			if (
 				!this.socket ||
-				this.socket.readyState === WebSocket.CLOSED ||
+				this.socket.readyState === READY_STATE.CLOSED ||
 				diff > this.options.heartTimeout!
 			) {
 				if (!this.isRecovering) {
@@ -373,9 +1987,182 @@ export default class KWebSocket {
 				}
 			} else {
 				this._tips("WebSocket：网络恢复但心跳仍活跃，无需重连");
+				this._setState(
+					this.socket.readyState === READY_STATE.OPEN ? "open" : "connecting",
+				);
 			}
 		};
-		window.addEventListener("online", this.recoverHandler);
+
+		this.unlistenNetwork = this.network.listen((online) =>
+			online ? recoverHandler() : offlineHandler(),
+		);
+	}
+
+	/**
+	 * 绑定页面可见性感知
+	 */
+	private _bindVisibility() {
+		if (!this.visibility || !this.lifecycle) return;
+		this.unlistenLifecycle = this.lifecycle.listen((visible) => {
+			if (this.hidden === !visible) return;
+			this.hidden = !visible;
+			if (this.destroyed || this.manualCloseFlag || this._isFollower()) return;
+			if (visible) {
+				this._tips("WebSocket：页面恢复可见");
+				this._probe();
+				return;
+			}
+			this._tips("WebSocket：页面隐藏，暂停心跳超时检测");
+			this.stopHeartbeatCheck();
+			this._clearProbe();
+			if (this.visibility!.pauseHeartbeat) this.stopHeartbeat();
+		});
+	}
+
+	/**
+	 * 存活探测：发送一次心跳，probeTimeout 内收到消息（ping-pong 模式为 pong）视为存活，否则重连
+	 */
+	private _probe() {
+		if (this.socket?.readyState !== READY_STATE.OPEN) {
+			// 等待重连中（后台重连延迟可能很长），立即重连
+			if (this.currentState === "reconnecting") this._reconnect(true, 0);
+			return;
+		}
+		this._clearProbe();
+		this._tips("WebSocket：发送心跳探测连接是否存活");
+		this._ping();
+		this.probeTimer = this.timers.setTimeout(() => {
+			this.probeTimer = null;
+			this._tips("WebSocket：存活探测超时，强制关闭并重连", "warn");
+			this._reconnect(false);
+		}, this.visibility!.probeTimeout);
+	}
+
+	/**
+	 * 存活探测期间收到消息，恢复心跳
+	 */
+	private _settleProbe() {
+		if (!this.probeTimer) return;
+		this._clearProbe();
+		this._tips("WebSocket：连接存活，恢复心跳");
+		this.sendHeartbeat();
+		this.startHeartbeatCheck();
+	}
+
+	/**
+	 * 取消存活探测
+	 */
+	private _clearProbe() {
+		if (this.probeTimer) this.timers.clearTimeout(this.probeTimer);
+		this.probeTimer = null;
+	}
+
+	/**
+	 * 启用跨标签页共享连接
+	 */
+	private _bindShared() {
+		const { shared } = this.options;
+		if (!shared) return;
+		if (!TabCoordinator.isSupported()) {
+			this._tips(
+				"WebSocket：当前环境不支持 BroadcastChannel，共享连接未启用",
+				"warn",
+			);
+			return;
+		}
+		const {
+			channel = `kwebsocket:${this.options.uniqueKey}`,
+			leaseInterval = 1000,
+		} = typeof shared === "object" ? shared : {};
+		this.coordinator = new TabCoordinator(channel, leaseInterval, {
+			onLeader: () => {
+				this._tips("WebSocket：当前标签页当选 leader，持有共享连接");
+				// 经原 leader 发出的请求无法再收到响应
+				this._rejectPendingRequests("WebSocket：共享连接 leader 已变更");
+				if (this.connectRequested && !this.manualCloseFlag) this._init();
+			},
+			onFollower: () => {
+				this._tips("WebSocket：当前标签页失去 leader 身份，关闭连接", "warn");
+				const socket = this.socket;
+				this.socket = null;
+				if (socket) {
+					socket.onclose = null;
+					socket.close();
+				}
+				this._clearTimers();
+				this.coordinator!.post({ type: "hello" });
+			},
+			onPacket: (packet) => this._handlePacket(packet),
+		});
+	}
+
+	/**
+	 * 处理其他标签页的数据包
+	 */
+	private _handlePacket(packet: SharedPacket) {
+		const isLeader = !!this.coordinator?.isLeader;
+		switch (packet.type) {
+			case "message":
+				if (!isLeader && this.connectRequested) this._receive(packet.data);
+				break;
+			case "send":
+				if (isLeader) this._forward(packet.data as KWebSocketFrame);
+				break;
+			case "state":
+				if (!isLeader && this.connectRequested) {
+					this._applyRemoteState(packet.state as KWebSocketState);
+				}
+				break;
+			case "hello":
+				if (isLeader) {
+					this.coordinator!.post({ type: "state", state: this.currentState });
+				}
+				break;
+		}
+	}
+
+	/**
+	 * leader 代 follower 发送帧，连接未打开时进入离线队列
+	 */
+	private _forward(frame: KWebSocketFrame) {
+		if (this._isOpen()) {
+			this._sendFrame(frame);
+		} else if (this.queue) {
+			const expiresAt = this.queue.ttl > 0 ? Date.now() + this.queue.ttl : 0;
+			this._enqueue({
+				data: frame,
+				payload: frame,
+				expiresAt,
+				priority: "normal",
+			});
+		} else {
+			this._tips("WebSocket：无法转发消息，连接未打开", "warn");
+		}
+	}
+
+	/**
+	 * follower 同步 leader 的连接状态
+	 */
+	private _applyRemoteState(state: KWebSocketState) {
+		const prevState = this.currentState;
+		// leader 销毁后由其他标签页接替，对 follower 而言相当于等待重连
+		this._setState(state === "destroyed" ? "reconnecting" : state);
+		if (state === "open" && prevState !== "open") {
+			this._tips("WebSocket：共享连接已打开");
+			this._resubscribe();
+			this._flushQueue();
+			this.options.onConnected?.();
+			this._emit("open");
+		} else if (state !== "open" && prevState === "open") {
+			this._rejectPendingRequests("WebSocket：共享连接已断开");
+		}
+	}
+
+	/**
+	 * 是否为共享模式下的 follower（不持有真实连接）
+	 */
+	private _isFollower() {
+		return !!this.coordinator && !this.coordinator.isLeader;
 	}
 
 	/**
@@ -385,23 +2172,34 @@ export default class KWebSocket {
 		if (this.destroyed) return;
 		this.destroyed = true;
 		this._closeSocket();
-
-		if (this.offlineHandler) {
-			window.removeEventListener("offline", this.offlineHandler);
-			this.offlineHandler = undefined;
-		}
-		if (this.recoverHandler) {
-			window.removeEventListener("online", this.recoverHandler);
-			this.recoverHandler = undefined;
+		// 释放 leader 身份，由其他标签页接替
+		if (this.coordinator?.isLeader) {
+			this.coordinator.post({ type: "state", state: "destroyed" });
 		}
+		this.coordinator?.close();
+		this.coordinator = null;
+		this._discard([...this.paced, ...this.outbox], "destroyed");
+		this.paced = [];
+		this.outbox = [];
+		this._rejectPendingRequests("WebSocket：实例已销毁");
+
+		this.unlistenNetwork?.();
+		this.unlistenNetwork = undefined;
+		this.unlistenLifecycle?.();
+		this.unlistenLifecycle = undefined;
 		this._tips("WebSocket：已销毁");
+		this._setState("destroyed");
+		this.listeners = {};
 	}
 
 	/**
 	 * 关闭 socket，不触发重连
 	 */
 	private _closeSocket() {
-		if (this.socket && this.socket.readyState !== WebSocket.CLOSED) {
+		// 丢弃尚未返回的 getUrl 结果
+		this.initSeq++;
+		if (this.socket && this.socket.readyState !== READY_STATE.CLOSED) {
+			this.closedSockets.add(this.socket);
 			this.socket.close();
 		}
 		this._clearTimers();
@@ -411,14 +2209,110 @@ export default class KWebSocket {
 	 * 清理所有定时器
 	 */
 	private _clearTimers() {
-		if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
-		if (this.heartbeatCheckTimer) clearInterval(this.heartbeatCheckTimer);
-		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		if (this.heartbeatTimer) this.timers.clearInterval(this.heartbeatTimer);
+		if (this.heartbeatCheckTimer) {
+			this.timers.clearInterval(this.heartbeatCheckTimer);
+		}
+		if (this.reconnectTimer) this.timers.clearTimeout(this.reconnectTimer);
+		if (this.paceTimer) this.timers.clearTimeout(this.paceTimer);
+		this.paceTimer = null;
+		this._clearProbe();
 		this.heartbeatTimer = null;
 		this.heartbeatCheckTimer = null;
 		this.reconnectTimer = null;
 	}
 
+	/**
+	 * 回放流量记录，将接收帧、状态变化、重连等依次交给当前实例的回调及事件监听函数处理，
+	 * 用于在本地复现问题（建议使用 autoConnect: false 的新实例）
+	 * @param recording 导出的记录（recorder.toJSON()）或记录数组
+	 * @param options 回放配置
+	 */
+	public async replay(
+		recording: KWebSocketRecording | KWebSocketRecord[],
+		options: KWebSocketReplayOptions = {},
+	) {
+		const records = Array.isArray(recording) ? recording : recording.records;
+		const { speed = 0 } = options;
+		let prevTime = records[0]?.time ?? 0;
+		for (const record of records) {
+			if (this.destroyed) return;
+			if (speed > 0 && record.time > prevTime) {
+				await new Promise((resolve) =>
+					this.timers.setTimeout(
+						() => resolve(undefined),
+						(record.time - prevTime) / speed,
+					),
+				);
+			}
+			prevTime = record.time;
+			this._replayRecord(record);
+		}
+		await this.receiving;
+	}
+
+	/**
+	 * 回放一条记录
+	 */
+	private _replayRecord(record: KWebSocketRecord) {
+		const detail = record.detail ?? {};
+		switch (record.type) {
+			case "receive": {
+				if (record.truncated) {
+					this._tips("WebSocket：跳过被截断的帧", "warn");
+					return;
+				}
+				const data = record.binary
+					? decodeBase64(record.data ?? "").buffer
+					: (record.data ?? "");
+				if (
+					this.options.heartbeatMode !== "ping-pong" &&
+					data === this.options.heartbeat
+				) {
+					return;
+				}
+				this._receive(data);
+				break;
+			}
+			case "open":
+				this.options.onConnected?.();
+				this._emit("open");
+				break;
+			case "close": {
+				const event = createEvent("close", detail) as CloseEvent;
+				this.options.onClose?.(event);
+				this._emit("close", event);
+				break;
+			}
+			case "error":
+				this._reportError(new Error(String(detail.message)));
+				break;
+			case "state":
+				this._setState(detail.state as KWebSocketState);
+				break;
+			case "reconnect": {
+				const info = detail as unknown as KWebSocketReconnectInfo;
+				this.options.onReconnecting?.(info);
+				this._emit("reconnecting", info);
+				break;
+			}
+			case "heartbeatTimeout":
+				this._emit("heartbeatTimeout", { elapsed: Number(detail.elapsed) });
+				break;
+		}
+	}
+
+	/**
+	 * 添加流量记录
+	 */
+	private _record(
+		type: KWebSocketRecordType,
+		detail?: Record<string, unknown>,
+		frame?: unknown,
+	) {
+		this.trafficRecorder?.record(type, detail, frame);
+	}
+
 	/**
 	 * 根据是否启用调试模式打印日志
 	 */
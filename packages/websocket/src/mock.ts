@@ -0,0 +1,264 @@
+import type { KWebSocketConstructor } from "./index";
+import { createEvent } from "./runtime";
+
+export interface MockServerOptions {
+	/** 消息传输延迟（双向），单位毫秒，默认 0 */
+	latency?: number;
+	/** 是否自动接受连接，默认 true；为 false 时需调用 accept / reject */
+	autoAccept?: boolean;
+}
+
+/** 客户端连接回调 */
+type ConnectionHandler = (client: MockWebSocket) => void;
+/** 服务端收到消息回调 */
+type MessageHandler = (data: unknown, client: MockWebSocket) => void;
+
+/**
+ * 内存模拟 WebSocket 服务
+ * 配合 KWebSocket 的 WebSocket 选项使用，无需真实服务即可在 Node 中测试心跳超时、重连等逻辑；
+ * 所有异步行为均基于 setTimeout，可与 jest / vitest 的 fake timers 配合使用
+ *
+ * @example
+ * const server = new MockWebSocketServer();
+ * server.onMessage((data, client) => server.send(`echo: ${data}`, client));
+ * const socket = KWebSocket.getInstance({ url: "ws://mock", WebSocket: server.WebSocket });
+ */
+export class MockWebSocketServer {
+	/** 当前连接的客户端 */
+	public clients: MockWebSocket[] = [];
+	/** 服务端收到的全部消息 */
+	public received: Array<{ data: unknown; client: MockWebSocket }> = [];
+	/** 消息传输延迟 */
+	public latency: number;
+	/** 是否离线，离线时新连接会失败 */
+	public offline = false;
+	/** 是否自动接受连接 */
+	private autoAccept: boolean;
+	private connectionHandlers: ConnectionHandler[] = [];
+	private messageHandlers: MessageHandler[] = [];
+	private ctor: KWebSocketConstructor | undefined;
+
+	constructor(options: MockServerOptions = {}) {
+		this.latency = options.latency ?? 0;
+		this.autoAccept = options.autoAccept ?? true;
+	}
+
+	/**
+	 * 绑定到当前服务的 WebSocket 构造函数，传给 KWebSocket 的 WebSocket 选项
+	 */
+	public get WebSocket(): KWebSocketConstructor {
+		if (!this.ctor) {
+			const server = this;
+			this.ctor = class extends MockWebSocket {
+				constructor(url: string | URL, protocols?: string | string[]) {
+					super(server, url, protocols);
+				}
+			} as unknown as KWebSocketConstructor;
+		}
+		return this.ctor;
+	}
+
+	/**
+	 * 监听客户端连接（连接打开后触发）
+	 */
+	public onConnection(handler: ConnectionHandler) {
+		this.connectionHandlers.push(handler);
+		return this;
+	}
+
+	/**
+	 * 监听客户端消息
+	 */
+	public onMessage(handler: MessageHandler) {
+		this.messageHandlers.push(handler);
+		return this;
+	}
+
+	/**
+	 * 向客户端推送消息，不指定客户端时推送给全部客户端
+	 */
+	public send(data: unknown, client?: MockWebSocket) {
+		const targets = client ? [client] : [...this.clients];
+		for (const target of targets) target._deliver(data);
+	}
+
+	/**
+	 * 接受等待中的连接（autoAccept 为 false 时使用）
+	 */
+	public accept(client: MockWebSocket) {
+		client._open();
+	}
+
+	/**
+	 * 拒绝等待中的连接（autoAccept 为 false 时使用）
+	 */
+	public reject(client: MockWebSocket, code = 1006, reason = "") {
+		client._fail(code, reason);
+	}
+
+	/**
+	 * 模拟服务端断开连接，不指定客户端时断开全部客户端
+	 * @param code 关闭码，默认 1006（异常断开）
+	 * @param reason 关闭原因
+	 */
+	public drop(code = 1006, reason = "", client?: MockWebSocket) {
+		const targets = client ? [client] : [...this.clients];
+		for (const target of targets) target._serverClose(code, reason);
+	}
+
+	/**
+	 * 模拟服务离线 / 恢复，离线时断开全部客户端且新连接会失败
+	 */
+	public setOffline(offline: boolean) {
+		this.offline = offline;
+		if (offline) this.drop();
+	}
+
+	/**
+	 * 设置消息传输延迟
+	 */
+	public setLatency(latency: number) {
+		this.latency = latency;
+	}
+
+	/**
+	 * 断开全部客户端并清空记录
+	 */
+	public reset() {
+		this.drop(1001, "reset");
+		this.received = [];
+		this.offline = false;
+	}
+
+	/** @internal 客户端发起连接 */
+	public _connect(client: MockWebSocket) {
+		if (this.offline) {
+			client._fail(1006, "server offline");
+		} else if (this.autoAccept) {
+			client._open();
+		}
+	}
+
+	/** @internal 客户端连接打开 */
+	public _opened(client: MockWebSocket) {
+		this.clients.push(client);
+		for (const handler of this.connectionHandlers) handler(client);
+	}
+
+	/** @internal 客户端连接关闭 */
+	public _closed(client: MockWebSocket) {
+		this.clients = this.clients.filter((item) => item !== client);
+	}
+
+	/** @internal 收到客户端消息 */
+	public _receive(data: unknown, client: MockWebSocket) {
+		this.received.push({ data, client });
+		for (const handler of this.messageHandlers) handler(data, client);
+	}
+}
+
+/**
+ * 模拟 WebSocket 客户端，实现 KWebSocket 用到的 WebSocket 接口
+ */
+export class MockWebSocket {
+	public static readonly CONNECTING = 0;
+	public static readonly OPEN = 1;
+	public static readonly CLOSING = 2;
+	public static readonly CLOSED = 3;
+	public readonly CONNECTING = 0;
+	public readonly OPEN = 1;
+	public readonly CLOSING = 2;
+	public readonly CLOSED = 3;
+
+	public readonly url: string;
+	public readonly protocol: string;
+	public readyState = MockWebSocket.CONNECTING;
+	public binaryType: BinaryType = "blob";
+	public bufferedAmount = 0;
+	public extensions = "";
+	/** 客户端发送的全部消息 */
+	public sent: unknown[] = [];
+
+	public onopen: ((event: Event) => void) | null = null;
+	public onmessage: ((event: MessageEvent) => void) | null = null;
+	public onclose: ((event: CloseEvent) => void) | null = null;
+	public onerror: ((event: Event) => void) | null = null;
+
+	constructor(
+		private server: MockWebSocketServer,
+		url: string | URL,
+		protocols?: string | string[],
+	) {
+		this.url = String(url);
+		this.protocol = Array.isArray(protocols)
+			? (protocols[0] ?? "")
+			: (protocols ?? "");
+		setTimeout(() => this.server._connect(this), this.server.latency);
+	}
+
+	public send(data: unknown) {
+		if (this.readyState === MockWebSocket.CONNECTING) {
+			throw new Error("MockWebSocket：连接尚未打开，无法发送消息");
+		}
+		if (this.readyState !== MockWebSocket.OPEN) return;
+		this.sent.push(data);
+		setTimeout(() => {
+			if (this.readyState === MockWebSocket.OPEN) {
+				this.server._receive(data, this);
+			}
+		}, this.server.latency);
+	}
+
+	public close(code = 1000, reason = "") {
+		if (
+			this.readyState === MockWebSocket.CLOSING ||
+			this.readyState === MockWebSocket.CLOSED
+		) {
+			return;
+		}
+		this.readyState = MockWebSocket.CLOSING;
+		setTimeout(() => this._finish(code, reason, true), this.server.latency);
+	}
+
+	/** @internal 连接打开 */
+	public _open() {
+		if (this.readyState !== MockWebSocket.CONNECTING) return;
+		this.readyState = MockWebSocket.OPEN;
+		this.server._opened(this);
+		this.onopen?.(createEvent("open"));
+	}
+
+	/** @internal 连接失败 */
+	public _fail(code: number, reason: string) {
+		if (this.readyState === MockWebSocket.CLOSED) return;
+		this.onerror?.(createEvent("error"));
+		this._finish(code, reason, false);
+	}
+
+	/** @internal 服务端推送消息 */
+	public _deliver(data: unknown) {
+		setTimeout(() => {
+			if (this.readyState !== MockWebSocket.OPEN) return;
+			this.onmessage?.(createEvent("message", { data }) as MessageEvent);
+		}, this.server.latency);
+	}
+
+	/** @internal 服务端断开连接 */
+	public _serverClose(code: number, reason: string) {
+		if (this.readyState === MockWebSocket.CLOSED) return;
+		this.readyState = MockWebSocket.CLOSING;
+		setTimeout(
+			() => this._finish(code, reason, code === 1000),
+			this.server.latency,
+		);
+	}
+
+	private _finish(code: number, reason: string, wasClean: boolean) {
+		if (this.readyState === MockWebSocket.CLOSED) return;
+		this.readyState = MockWebSocket.CLOSED;
+		this.server._closed(this);
+		this.onclose?.(
+			createEvent("close", { code, reason, wasClean }) as CloseEvent,
+		);
+	}
+}
@@ -0,0 +1,287 @@
+/**
+ * 记录类型
+ * - connect：发起连接（detail.url）
+ * - open：连接打开
+ * - close：连接关闭（detail.code / detail.reason）
+ * - error：连接错误或解码错误（detail.message）
+ * - send：发送帧
+ * - receive：接收帧
+ * - heartbeat：发送心跳（detail.seq）
+ * - heartbeatTimeout：心跳超时（detail.elapsed）
+ * - state：状态变化（detail.state / detail.prevState）
+ * - reconnect：即将重连（detail.attempt / detail.delay / detail.force）
+ */
+export type KWebSocketRecordType =
+	| "connect"
+	| "open"
+	| "close"
+	| "error"
+	| "send"
+	| "receive"
+	| "heartbeat"
+	| "heartbeatTimeout"
+	| "state"
+	| "reconnect";
+
+export interface KWebSocketRecord {
+	/** 时间戳，单位毫秒 */
+	time: number;
+	/** 记录类型 */
+	type: KWebSocketRecordType;
+	/** 帧内容（send / receive / heartbeat），二进制帧为 base64 */
+	data?: string;
+	/** 是否为二进制帧 */
+	binary?: boolean;
+	/** 帧内容是否因超出 maxDataLength 被截断（截断的帧无法回放） */
+	truncated?: boolean;
+	/** 附加信息 */
+	detail?: Record<string, unknown>;
+}
+
+/** 导出的记录 */
+export interface KWebSocketRecording {
+	version: 1;
+	/** 实例唯一标识 */
+	uniqueKey: string;
+	/** 连接地址 */
+	url: string;
+	/** 导出时间戳 */
+	exportedAt: number;
+	records: KWebSocketRecord[];
+}
+
+export interface KWebSocketRecorderOptions {
+	/** 最多保留的记录数，超出后丢弃最早的记录，默认 500 */
+	capacity?: number;
+	/** 帧内容最大长度（字符数），超出部分被截断，默认 10_000，0 表示不限制 */
+	maxDataLength?: number;
+	/** 脱敏，返回处理后的记录，返回 null 时不记录（如移除 url 中的 token） */
+	redact?: (record: KWebSocketRecord) => KWebSocketRecord | null;
+}
+
+/**
+ * 流量记录器
+ * 以环形缓冲区记录收发帧、心跳、状态变化及重连，可导出为 JSON 或 HAR 格式附加到问题反馈中
+ */
+export class TrafficRecorder {
+	/** 环形缓冲区 */
+	private buffer: KWebSocketRecord[] = [];
+	/** 下一条记录写入的位置（缓冲区已满时） */
+	private cursor = 0;
+	private capacity: number;
+	private maxDataLength: number;
+	private redact: KWebSocketRecorderOptions["redact"];
+
+	/**
+	 * 构造函数
+	 * @param options 配置项
+	 * @param getInfo 获取实例信息，用于导出
+	 */
+	constructor(
+		options: KWebSocketRecorderOptions,
+		private getInfo: () => { uniqueKey: string; url: string },
+	) {
+		this.capacity = Math.max(1, options.capacity ?? 500);
+		this.maxDataLength = options.maxDataLength ?? 10_000;
+		this.redact = options.redact;
+	}
+
+	/** 按时间顺序排列的记录 */
+	public get records(): KWebSocketRecord[] {
+		return [
+			...this.buffer.slice(this.cursor),
+			...this.buffer.slice(0, this.cursor),
+		];
+	}
+
+	/**
+	 * 添加一条记录
+	 * @param type 记录类型
+	 * @param detail 附加信息
+	 * @param frame 帧内容
+	 */
+	public record(
+		type: KWebSocketRecordType,
+		detail?: Record<string, unknown>,
+		frame?: unknown,
+	) {
+		let record: KWebSocketRecord | null = { time: Date.now(), type };
+		if (detail) record.detail = detail;
+		if (frame !== undefined) Object.assign(record, this._serialize(frame));
+		if (this.redact) record = this.redact(record);
+		if (!record) return;
+		if (this.buffer.length < this.capacity) {
+			this.buffer.push(record);
+		} else {
+			this.buffer[this.cursor] = record;
+			this.cursor = (this.cursor + 1) % this.capacity;
+		}
+	}
+
+	/**
+	 * 清空记录
+	 */
+	public clear() {
+		this.buffer = [];
+		this.cursor = 0;
+	}
+
+	/**
+	 * 导出为 JSON，可通过 KWebSocket 的 replay 方法回放
+	 */
+	public toJSON(): KWebSocketRecording {
+		return {
+			version: 1,
+			...this.getInfo(),
+			exportedAt: Date.now(),
+			records: this.records,
+		};
+	}
+
+	/**
+	 * 导出为 HAR（每次连接为一个条目，帧记录在 _webSocketMessages 中），可导入 Chrome DevTools 查看
+	 */
+	public toHAR() {
+		const entries: Record<string, any>[] = [];
+		let entry: Record<string, any> | undefined;
+		const createEntry = (time: number, url: string) => {
+			entry = {
+				startedDateTime: new Date(time).toISOString(),
+				time: 0,
+				request: {
+					method: "GET",
+					url,
+					httpVersion: "HTTP/1.1",
+					cookies: [],
+					headers: [],
+					queryString: [],
+					headersSize: -1,
+					bodySize: -1,
+				},
+				response: {
+					status: 0,
+					statusText: "",
+					httpVersion: "HTTP/1.1",
+					cookies: [],
+					headers: [],
+					content: { size: 0, mimeType: "" },
+					redirectURL: "",
+					headersSize: -1,
+					bodySize: -1,
+				},
+				cache: {},
+				timings: { send: 0, wait: 0, receive: 0 },
+				_resourceType: "websocket",
+				_webSocketMessages: [],
+			};
+			entries.push(entry);
+			return entry;
+		};
+		for (const record of this.records) {
+			if (record.type === "connect") {
+				createEntry(record.time, String(record.detail?.url ?? ""));
+			} else if (record.type === "open" && entry) {
+				entry.response.status = 101;
+				entry.response.statusText = "Switching Protocols";
+				entry.time = record.time - Date.parse(entry.startedDateTime);
+			} else if (
+				record.type === "send" ||
+				record.type === "receive" ||
+				record.type === "heartbeat"
+			) {
+				// 缓冲区中最早的连接记录可能已被覆盖
+				const current = entry ?? createEntry(record.time, this.getInfo().url);
+				current._webSocketMessages.push({
+					type: record.type === "receive" ? "receive" : "send",
+					time: record.time / 1000,
+					opcode: record.binary ? 2 : 1,
+					data: record.data ?? "",
+				});
+			}
+		}
+		return {
+			log: {
+				version: "1.2",
+				creator: { name: "@likg/websocket", version: "" },
+				pages: [],
+				entries,
+			},
+		};
+	}
+
+	/**
+	 * 序列化帧内容
+	 */
+	private _serialize(
+		frame: unknown,
+	): Pick<KWebSocketRecord, "data" | "binary" | "truncated"> {
+		let data: string;
+		let binary = false;
+		if (typeof frame === "string") {
+			data = frame;
+		} else if (frame instanceof ArrayBuffer) {
+			data = encodeBase64(new Uint8Array(frame));
+			binary = true;
+		} else if (ArrayBuffer.isView(frame)) {
+			data = encodeBase64(
+				new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength),
+			);
+			binary = true;
+		} else if (typeof Blob !== "undefined" && frame instanceof Blob) {
+			// Blob 需异步读取，仅记录大小
+			return {
+				data: `[Blob ${frame.size} bytes]`,
+				binary: true,
+				truncated: true,
+			};
+		} else {
+			data = String(frame);
+		}
+		if (this.maxDataLength > 0 && data.length > this.maxDataLength) {
+			return {
+				data: data.slice(0, this.maxDataLength),
+				binary,
+				truncated: true,
+			};
+		}
+		return binary ? { data, binary } : { data };
+	}
+}
+
+const BASE64_CHARS =
+	"ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * base64 编码（不依赖 btoa，兼容小程序等运行时）
+ */
+export function encodeBase64(bytes: Uint8Array) {
+	let result = "";
+	for (let i = 0; i < bytes.length; i += 3) {
+		const n =
+			(bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+		result += BASE64_CHARS[(n >> 18) & 63] + BASE64_CHARS[(n >> 12) & 63];
+		result += i + 1 < bytes.length ? BASE64_CHARS[(n >> 6) & 63] : "=";
+		result += i + 2 < bytes.length ? BASE64_CHARS[n & 63] : "=";
+	}
+	return result;
+}
+
+/**
+ * base64 解码
+ */
+export function decodeBase64(base64: string) {
+	const clean = base64.replace(/=+$/, "");
+	const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+	let buffer = 0;
+	let bits = 0;
+	let index = 0;
+	for (const char of clean) {
+		buffer = ((buffer << 6) | BASE64_CHARS.indexOf(char)) & 0xffff;
+		bits += 6;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes[index++] = (buffer >> bits) & 0xff;
+		}
+	}
+	return bytes;
+}
@@ -0,0 +1,268 @@
+/** WebSocket 发送的数据 */
+export type KWebSocketData = Parameters<WebSocket["send"]>[0];
+
+/**
+ * 最小 WebSocket 接口，KWebSocket 仅依赖以下成员
+ * 浏览器 / Node 22 的 WebSocket 可直接使用，其他运行时（如小程序）需适配为此接口
+ */
+export interface KWebSocketLike {
+	/** 连接状态：0 连接中，1 已打开，2 关闭中，3 已关闭 */
+	readonly readyState: number;
+	binaryType: BinaryType;
+	send(data: KWebSocketData): void;
+	close(code?: number, reason?: string): void;
+	onopen: ((event: Event) => void) | null;
+	onmessage: ((event: MessageEvent) => void) | null;
+	onclose: ((event: CloseEvent) => void) | null;
+	onerror: ((event: Event) => void) | null;
+}
+
+/** 定时器 id */
+export type KWebSocketTimerId = unknown;
+
+/** 定时器来源 */
+export interface KWebSocketTimers {
+	setTimeout(handler: () => void, ms: number): KWebSocketTimerId;
+	clearTimeout(id: KWebSocketTimerId): void;
+	setInterval(handler: () => void, ms: number): KWebSocketTimerId;
+	clearInterval(id: KWebSocketTimerId): void;
+}
+
+/** 网络状态来源 */
+export interface KWebSocketNetwork {
+	/**
+	 * 监听网络状态变化
+	 * @param listener online 为 true 表示网络恢复，false 表示网络断开
+	 * @returns 取消监听的函数
+	 */
+	listen(listener: (online: boolean) => void): () => void;
+}
+
+/** 页面生命周期来源 */
+export interface KWebSocketLifecycle {
+	/**
+	 * 监听页面可见性变化
+	 * @param listener visible 为 false 表示页面隐藏或被冻结，true 表示恢复可见
+	 * @returns 取消监听的函数
+	 */
+	listen(listener: (visible: boolean) => void): () => void;
+}
+
+/**
+ * 运行时适配层
+ * 默认使用全局 WebSocket、全局定时器及全局对象的 online / offline 事件，
+ * 适用于浏览器、Web Worker 及 Node 22+（Node 中无网络状态来源）
+ */
+export interface KWebSocketRuntime {
+	/** 创建连接，默认使用 WebSocket 选项或全局 WebSocket */
+	createSocket?: (url: string) => KWebSocketLike;
+	/** 网络状态来源，默认监听全局对象的 online / offline 事件，传 null 不监听 */
+	network?: KWebSocketNetwork | null;
+	/** 定时器来源，默认使用全局定时器 */
+	timers?: KWebSocketTimers;
+	/** 页面生命周期来源，默认监听 document 的 visibilitychange / freeze / resume 事件，传 null 不监听 */
+	lifecycle?: KWebSocketLifecycle | null;
+}
+
+/**
+ * 全局定时器，调用时再读取全局函数，以兼容测试中替换的 fake timers
+ */
+export const globalTimers: KWebSocketTimers = {
+	setTimeout: (handler, ms) => setTimeout(handler, ms),
+	clearTimeout: (id) => clearTimeout(id as ReturnType<typeof setTimeout>),
+	setInterval: (handler, ms) => setInterval(handler, ms),
+	clearInterval: (id) => clearInterval(id as ReturnType<typeof setInterval>),
+};
+
+/**
+ * 全局对象（window / WorkerGlobalScope）的 online / offline 事件，
+ * 全局对象不支持事件监听时（如 Node）返回 null
+ */
+export function getGlobalNetwork(): KWebSocketNetwork | null {
+	const target = globalThis as Partial<EventTarget>;
+	if (
+		typeof target.addEventListener !== "function" ||
+		typeof target.removeEventListener !== "function"
+	) {
+		return null;
+	}
+	return {
+		listen(listener) {
+			const onOnline = () => listener(true);
+			const onOffline = () => listener(false);
+			target.addEventListener!("online", onOnline);
+			target.addEventListener!("offline", onOffline);
+			return () => {
+				target.removeEventListener!("online", onOnline);
+				target.removeEventListener!("offline", onOffline);
+			};
+		},
+	};
+}
+
+/**
+ * document 的 visibilitychange / freeze / resume 事件，不存在 document 时（如 Worker、Node）返回 null
+ */
+export function getGlobalLifecycle(): KWebSocketLifecycle | null {
+	if (typeof document === "undefined") return null;
+	return {
+		listen(listener) {
+			const onChange = () => listener(document.visibilityState === "visible");
+			const onFreeze = () => listener(false);
+			document.addEventListener("visibilitychange", onChange);
+			document.addEventListener("freeze", onFreeze);
+			document.addEventListener("resume", onChange);
+			return () => {
+				document.removeEventListener("visibilitychange", onChange);
+				document.removeEventListener("freeze", onFreeze);
+				document.removeEventListener("resume", onChange);
+			};
+		},
+	};
+}
+
+/** 微信小程序 SocketTask（仅声明用到的成员） */
+export interface WxSocketTask {
+	send(options: {
+		data: string | ArrayBuffer;
+		fail?: (res: { errMsg: string }) => void;
+	}): void;
+	close(options: { code?: number; reason?: string }): void;
+	onOpen(callback: (res: unknown) => void): void;
+	onMessage(callback: (res: { data: string | ArrayBuffer }) => void): void;
+	onClose(callback: (res: { code: number; reason: string }) => void): void;
+	onError(callback: (res: { errMsg: string }) => void): void;
+}
+
+/** 微信小程序 wx 对象（仅声明用到的成员） */
+export interface WxLike {
+	connectSocket(options: {
+		url: string;
+		header?: Record<string, string>;
+		protocols?: string[];
+	}): WxSocketTask;
+	onNetworkStatusChange(
+		callback: (res: { isConnected: boolean }) => void,
+	): void;
+	offNetworkStatusChange?(
+		callback: (res: { isConnected: boolean }) => void,
+	): void;
+	onAppShow(callback: () => void): void;
+	onAppHide(callback: () => void): void;
+	offAppShow?(callback: () => void): void;
+	offAppHide?(callback: () => void): void;
+}
+
+export interface WxRuntimeOptions {
+	/** 连接请求头 */
+	header?: Record<string, string>;
+	/** 子协议 */
+	protocols?: string[];
+}
+
+/**
+ * 微信小程序运行时，基于 wx.connectSocket、wx.onNetworkStatusChange 及 wx.onAppShow / wx.onAppHide
+ * 其他兼容 wx 接口的小程序（如 uni / tt / my 的兼容层）同样适用
+ *
+ * @example
+ * const socket = KWebSocket.getInstance({ url: "wss://example.com", runtime: KWebSocket.createWxRuntime(wx) });
+ */
+export function createWxRuntime(
+	wx: WxLike,
+	options: WxRuntimeOptions = {},
+): KWebSocketRuntime {
+	return {
+		createSocket: (url) => new WxSocket(wx, url, options),
+		network: {
+			listen(listener) {
+				const onChange = (res: { isConnected: boolean }) =>
+					listener(res.isConnected);
+				wx.onNetworkStatusChange(onChange);
+				return () => wx.offNetworkStatusChange?.(onChange);
+			},
+		},
+		timers: globalTimers,
+		lifecycle: {
+			listen(listener) {
+				const onShow = () => listener(true);
+				const onHide = () => listener(false);
+				wx.onAppShow(onShow);
+				wx.onAppHide(onHide);
+				return () => {
+					wx.offAppShow?.(onShow);
+					wx.offAppHide?.(onHide);
+				};
+			},
+		},
+	};
+}
+
+/**
+ * 将 SocketTask 适配为 WebSocket 接口
+ */
+class WxSocket implements KWebSocketLike {
+	public readyState = 0;
+	/** 小程序中二进制消息始终为 ArrayBuffer */
+	public binaryType: BinaryType = "arraybuffer";
+	public onopen: ((event: Event) => void) | null = null;
+	public onmessage: ((event: MessageEvent) => void) | null = null;
+	public onclose: ((event: CloseEvent) => void) | null = null;
+	public onerror: ((event: Event) => void) | null = null;
+	private task: WxSocketTask;
+
+	constructor(wx: WxLike, url: string, options: WxRuntimeOptions) {
+		this.task = wx.connectSocket({ url, ...options });
+		this.task.onOpen(() => {
+			this.readyState = 1;
+			this.onopen?.(createEvent("open"));
+		});
+		this.task.onMessage(({ data }) => {
+			this.onmessage?.(createEvent("message", { data }) as MessageEvent);
+		});
+		this.task.onClose(({ code, reason }) => {
+			this.readyState = 3;
+			this.onclose?.(
+				createEvent("close", {
+					code,
+					reason,
+					wasClean: code === 1000,
+				}) as CloseEvent,
+			);
+		});
+		this.task.onError(({ errMsg }) => {
+			this.onerror?.(createEvent("error", { message: errMsg }));
+		});
+	}
+
+	public send(data: KWebSocketData) {
+		if (typeof data !== "string" && !(data instanceof ArrayBuffer)) {
+			if (!ArrayBuffer.isView(data)) {
+				throw new Error("WebSocket：小程序中仅支持发送字符串或 ArrayBuffer");
+			}
+			// 小程序不支持 TypedArray，复制为独立的 ArrayBuffer
+			data = new Uint8Array(
+				data.buffer,
+				data.byteOffset,
+				data.byteLength,
+			).slice().buffer;
+		}
+		this.task.send({
+			data: data as string | ArrayBuffer,
+			fail: ({ errMsg }) =>
+				this.onerror?.(createEvent("error", { message: errMsg })),
+		});
+	}
+
+	public close(code = 1000, reason = "") {
+		if (this.readyState >= 2) return;
+		this.readyState = 2;
+		this.task.close({ code, reason });
+	}
+}
+
+/**
+ * 创建事件对象（非浏览器环境中不一定存在 CloseEvent / MessageEvent）
+ */
+export function createEvent(type: string, init: Record<string, unknown> = {}) {
+	return { type, ...init } as unknown as Event;
+}
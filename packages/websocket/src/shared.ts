@@ -0,0 +1,179 @@
+export interface KWebSocketSharedOptions {
+	/** 频道名称，同名实例在多个标签页之间共享一个连接，默认 kwebsocket:{uniqueKey} */
+	channel?: string;
+	/** 不支持 Web Locks 时使用 localStorage 租约选举，租约续期间隔，单位毫秒，默认 1000 */
+	leaseInterval?: number;
+}
+
+/** 标签页之间传递的数据包 */
+export type SharedPacket =
+	/** leader -> follower：服务端推送的原始消息 */
+	| { type: "message"; data: unknown }
+	/** follower -> leader：需要发送给服务端的帧 */
+	| { type: "send"; data: unknown }
+	/** leader -> follower：连接状态 */
+	| { type: "state"; state: string }
+	/** follower -> leader：加入频道，请求同步连接状态 */
+	| { type: "hello" };
+
+/** 标签页 id 前缀，共享模式下请求 id 以此开头 */
+export const TAB_ID_PREFIX = "kws_";
+
+/**
+ * 标签页协调器
+ * 通过 BroadcastChannel 在同源标签页之间通信，
+ * 通过 Web Locks（不支持时退化为 localStorage 租约）选举唯一的 leader，
+ * leader 标签页关闭后由其他标签页接替
+ */
+export class TabCoordinator {
+	/** 当前标签页 id */
+	public readonly id =
+		`${TAB_ID_PREFIX}${Math.random().toString(36).slice(2, 10)}`;
+	/** 当前标签页是否为 leader */
+	public isLeader = false;
+	/** 通信频道 */
+	private channel: BroadcastChannel;
+	/** 释放 Web Locks 锁 */
+	private releaseLock: (() => void) | undefined;
+	/** 定时器-租约续期 */
+	private leaseTimer: ReturnType<typeof setInterval> | null = null;
+	/** 页面关闭事件句柄 */
+	private pagehideHandler: (() => void) | undefined;
+	/** 是否已关闭 */
+	private closed = false;
+
+	/**
+	 * 当前环境是否支持共享连接
+	 */
+	public static isSupported() {
+		return typeof BroadcastChannel !== "undefined";
+	}
+
+	/**
+	 * 构造函数
+	 * @param name 频道名称
+	 * @param leaseInterval 租约续期间隔
+	 * @param handlers 回调
+	 */
+	constructor(
+		private name: string,
+		private leaseInterval: number,
+		private handlers: {
+			/** 当选 leader */
+			onLeader: () => void;
+			/** 失去 leader 身份（仅 localStorage 租约可能发生） */
+			onFollower: () => void;
+			/** 收到其他标签页的数据包 */
+			onPacket: (packet: SharedPacket) => void;
+		},
+	) {
+		this.channel = new BroadcastChannel(name);
+		this.channel.onmessage = (event: MessageEvent<SharedPacket>) => {
+			if (!this.closed) this.handlers.onPacket(event.data);
+		};
+		this._elect();
+	}
+
+	/**
+	 * 向其他标签页广播数据包
+	 */
+	public post(packet: SharedPacket) {
+		if (!this.closed) this.channel.postMessage(packet);
+	}
+
+	/**
+	 * 关闭协调器，leader 会释放锁，由其他标签页接替
+	 */
+	public close() {
+		if (this.closed) return;
+		this.closed = true;
+		this.releaseLock?.();
+		this.releaseLock = undefined;
+		if (this.leaseTimer) clearInterval(this.leaseTimer);
+		this.leaseTimer = null;
+		if (this.isLeader && !this._hasLocks()) {
+			const lease = this._readLease();
+			if (lease?.id === this.id) localStorage.removeItem(this._leaseKey());
+		}
+		if (this.pagehideHandler) {
+			window.removeEventListener("pagehide", this.pagehideHandler);
+			this.pagehideHandler = undefined;
+		}
+		this.isLeader = false;
+		this.channel.close();
+	}
+
+	/**
+	 * 选举 leader
+	 */
+	private _elect() {
+		if (this._hasLocks()) {
+			// 锁在标签页关闭时由浏览器自动释放，排队中的标签页随即获得锁
+			navigator.locks.request(
+				`${this.name}:leader`,
+				() =>
+					new Promise<void>((resolve) => {
+						if (this.closed) return resolve();
+						this.releaseLock = resolve;
+						this._becomeLeader();
+					}),
+			);
+		} else if (typeof localStorage !== "undefined") {
+			this._renewLease();
+			this.leaseTimer = setInterval(
+				() => this._renewLease(),
+				this.leaseInterval,
+			);
+			if (typeof window !== "undefined") {
+				this.pagehideHandler = () => this.close();
+				window.addEventListener("pagehide", this.pagehideHandler);
+			}
+		} else {
+			// 无法协调时各自持有连接
+			this._becomeLeader();
+		}
+	}
+
+	/**
+	 * localStorage 租约：租约不存在、已过期或属于自己时写入并确认归属
+	 */
+	private _renewLease() {
+		const now = Date.now();
+		const lease = this._readLease();
+		const isMine = lease?.id === this.id;
+		if (!lease || isMine || lease.expires < now) {
+			localStorage.setItem(
+				this._leaseKey(),
+				JSON.stringify({ id: this.id, expires: now + this.leaseInterval * 3 }),
+			);
+			// 多个标签页同时写入时以最后写入者为准
+			if (this._readLease()?.id === this.id) this._becomeLeader();
+		} else if (this.isLeader) {
+			// 租约被其他标签页接管（如当前标签页被冻结未能及时续期）
+			this.isLeader = false;
+			this.handlers.onFollower();
+		}
+	}
+
+	private _readLease(): { id: string; expires: number } | null {
+		try {
+			return JSON.parse(localStorage.getItem(this._leaseKey()) || "null");
+		} catch {
+			return null;
+		}
+	}
+
+	private _leaseKey() {
+		return `${this.name}:leader`;
+	}
+
+	private _hasLocks() {
+		return typeof navigator !== "undefined" && !!navigator.locks;
+	}
+
+	private _becomeLeader() {
+		if (this.closed || this.isLeader) return;
+		this.isLeader = true;
+		this.handlers.onLeader();
+	}
+}
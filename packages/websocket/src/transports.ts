@@ -0,0 +1,284 @@
+import {
+	createEvent,
+	type KWebSocketData,
+	type KWebSocketLike,
+} from "./runtime";
+
+/** 传输方式 */
+export type KWebSocketTransportType = "websocket" | "sse" | "long-polling";
+
+/** HTTP 传输（sse / long-polling）公共配置 */
+interface HttpTransportOptions {
+	/**
+	 * 接收消息的地址，默认将连接地址的 ws[s]:// 替换为 http[s]://
+	 * 传入函数时参数为连接地址（已包含 getUrl、断线续传等处理）
+	 */
+	url?: string | ((url: string) => string);
+	/** 发送消息（POST）的地址，默认与接收消息的地址相同 */
+	sendUrl?: string | ((url: string) => string);
+	/** 发送及轮询请求的请求头 */
+	headers?: Record<string, string>;
+	/** 是否携带 cookie，默认 false */
+	withCredentials?: boolean;
+}
+
+/** Server-Sent Events：通过 EventSource 接收消息，通过 POST 发送消息 */
+export interface KWebSocketSseTransport extends HttpTransportOptions {
+	type: "sse";
+}
+
+/**
+ * 长轮询：循环 GET 接收消息，通过 POST 发送消息
+ * 响应为 JSON 数组时每个元素作为一条消息，204 或空响应表示没有消息，其余响应整体作为一条消息
+ */
+export interface KWebSocketPollingTransport extends HttpTransportOptions {
+	type: "long-polling";
+	/** 两次轮询之间的间隔，单位毫秒，默认 0 */
+	interval?: number;
+}
+
+/** 传输方式配置 */
+export type KWebSocketTransport =
+	| KWebSocketTransportType
+	| { type: "websocket" }
+	| KWebSocketSseTransport
+	| KWebSocketPollingTransport;
+
+/**
+ * 当前环境是否支持 HTTP 传输
+ */
+export function isHttpTransportSupported(
+	transport: KWebSocketSseTransport | KWebSocketPollingTransport,
+) {
+	if (typeof fetch === "undefined" || typeof AbortController === "undefined") {
+		return false;
+	}
+	return transport.type !== "sse" || typeof EventSource !== "undefined";
+}
+
+/**
+ * 创建 HTTP 传输连接
+ */
+export function createHttpSocket(
+	transport: KWebSocketSseTransport | KWebSocketPollingTransport,
+	url: string,
+): KWebSocketLike {
+	return transport.type === "sse"
+		? new SseSocket(transport, url)
+		: new PollingSocket(transport, url);
+}
+
+/**
+ * 解析 HTTP 地址
+ */
+function resolveUrl(
+	option: string | ((url: string) => string) | undefined,
+	url: string,
+) {
+	if (typeof option === "function") return option(url);
+	return option ?? url.replace(/^ws(s?):\/\//i, "http$1://");
+}
+
+/**
+ * HTTP 传输基类，模拟 WebSocket 接口：发送消息通过 POST 按顺序发出，任一请求失败视为连接断开
+ */
+abstract class HttpSocket implements KWebSocketLike {
+	public readyState = 0;
+	public binaryType: BinaryType = "blob";
+	public onopen: ((event: Event) => void) | null = null;
+	public onmessage: ((event: MessageEvent) => void) | null = null;
+	public onclose: ((event: CloseEvent) => void) | null = null;
+	public onerror: ((event: Event) => void) | null = null;
+	/** 接收消息的地址 */
+	protected url: string;
+	/** 取消进行中的请求 */
+	protected controller = new AbortController();
+	/** 发送消息的地址 */
+	private sendUrl: string;
+	/** 发送队列，保证消息顺序 */
+	private sending: Promise<void> = Promise.resolve();
+
+	constructor(
+		protected options: HttpTransportOptions,
+		url: string,
+	) {
+		this.url = resolveUrl(options.url, url);
+		this.sendUrl = options.sendUrl
+			? resolveUrl(options.sendUrl, url)
+			: this.url;
+	}
+
+	public send(data: KWebSocketData) {
+		if (this.readyState === 0) {
+			throw new Error("WebSocket：连接尚未打开，无法发送消息");
+		}
+		if (this.readyState !== 1) return;
+		this.sending = this.sending.then(() =>
+			this.request(this.sendUrl, { method: "POST", body: data as BodyInit })
+				.then((response) => {
+					if (!response.ok) throw new Error(`HTTP ${response.status}`);
+				})
+				.catch((error) => this.fail(error)),
+		);
+	}
+
+	public close(code = 1000, reason = "") {
+		if (this.readyState >= 2) return;
+		this.readyState = 2;
+		// 与 WebSocket 一致，异步触发 onclose
+		Promise.resolve().then(() => this.finish(code, reason));
+	}
+
+	/**
+	 * 发起请求
+	 */
+	protected request(url: string, init: RequestInit) {
+		return fetch(url, {
+			...init,
+			headers: this.options.headers,
+			credentials: this.options.withCredentials ? "include" : "same-origin",
+			signal: this.controller.signal,
+		});
+	}
+
+	/**
+	 * 连接打开
+	 */
+	protected open() {
+		if (this.readyState !== 0) return;
+		this.readyState = 1;
+		this.onopen?.(createEvent("open"));
+	}
+
+	/**
+	 * 派发消息
+	 */
+	protected deliver(data: unknown) {
+		if (this.readyState !== 1) return;
+		this.onmessage?.(createEvent("message", { data }) as MessageEvent);
+	}
+
+	/**
+	 * 请求失败，视为连接异常断开
+	 */
+	protected fail(error: unknown) {
+		if (this.readyState >= 2) return;
+		this.onerror?.(
+			createEvent("error", {
+				message: error instanceof Error ? error.message : String(error),
+			}),
+		);
+		this.finish(1006, "");
+	}
+
+	/**
+	 * 连接关闭
+	 */
+	protected finish(code: number, reason: string) {
+		if (this.readyState === 3) return;
+		this.readyState = 3;
+		this.controller.abort();
+		this.dispose();
+		this.onclose?.(
+			createEvent("close", {
+				code,
+				reason,
+				wasClean: code === 1000,
+			}) as CloseEvent,
+		);
+	}
+
+	/**
+	 * 释放接收消息的资源
+	 */
+	protected abstract dispose(): void;
+}
+
+/**
+ * Server-Sent Events 连接
+ */
+class SseSocket extends HttpSocket {
+	private source: EventSource;
+
+	constructor(options: KWebSocketSseTransport, url: string) {
+		super(options, url);
+		this.source = new EventSource(this.url, {
+			withCredentials: !!options.withCredentials,
+		});
+		this.source.onopen = () => this.open();
+		this.source.onmessage = (event) => this.deliver(event.data);
+		// EventSource 会自动重连，这里交由 KWebSocket 统一处理重连
+		this.source.onerror = () => this.fail(new Error("EventSource error"));
+	}
+
+	protected dispose() {
+		this.source.close();
+	}
+}
+
+/**
+ * 长轮询连接，首个轮询请求响应（收到响应头）后视为连接打开
+ */
+class PollingSocket extends HttpSocket {
+	constructor(
+		private transport: KWebSocketPollingTransport,
+		url: string,
+	) {
+		super(transport, url);
+		Promise.resolve().then(() => this._poll());
+	}
+
+	protected dispose() {}
+
+	/**
+	 * 循环轮询
+	 */
+	private async _poll() {
+		const interval = this.transport.interval ?? 0;
+		while (this.readyState < 2) {
+			try {
+				const response = await this.request(this.url, {
+					method: "GET",
+					cache: "no-store",
+				});
+				if (!response.ok) throw new Error(`HTTP ${response.status}`);
+				this.open();
+				for (const message of await this._read(response)) {
+					this.deliver(message);
+				}
+			} catch (error) {
+				this.fail(error);
+				return;
+			}
+			if (interval > 0) {
+				await new Promise((resolve) => setTimeout(resolve, interval));
+			}
+		}
+	}
+
+	/**
+	 * 读取轮询响应中的消息
+	 */
+	private async _read(response: Response): Promise<unknown[]> {
+		if (response.status === 204) return [];
+		const contentType = response.headers.get("Content-Type") || "";
+		if (contentType.includes("application/octet-stream")) {
+			return [await response.arrayBuffer()];
+		}
+		const text = await response.text();
+		if (!text) return [];
+		if (contentType.includes("json")) {
+			try {
+				const messages = JSON.parse(text);
+				if (Array.isArray(messages)) {
+					return messages.map((message) =>
+						typeof message === "string" ? message : JSON.stringify(message),
+					);
+				}
+			} catch {
+				// 非 JSON 数组时整体作为一条消息
+			}
+		}
+		return [text];
+	}
+}